@@ -0,0 +1,46 @@
+import type { PriceAlert, StockPrice } from "@shared/schema";
+
+export interface AlertEvaluation {
+  triggered: boolean;
+  changePercent: number; // day change against the previous close
+  referencePrice: number | null; // day high/low to compare the next check against
+}
+
+export function dayChangePercent(quote: StockPrice): number {
+  return quote.previousClose ? ((quote.currentPrice - quote.previousClose) / quote.previousClose) * 100 : 0;
+}
+
+// Check an active alert against a quote.
+// ABOVE, BELOW and CHANGE_PERCENT are levels and fire whenever the quote is at or past them.
+// CROSS_DAY_HIGH/LOW fire when the day's high/low moves past where it stood at the previous check,
+// so the first check of a newly (re)armed alert only records that level.
+export function evaluateAlert(alert: PriceAlert, quote: StockPrice): AlertEvaluation {
+  const threshold = alert.threshold ? parseFloat(alert.threshold) : 0;
+  const reference = alert.referencePrice ? parseFloat(alert.referencePrice) : null;
+  const changePercent = dayChangePercent(quote);
+
+  switch (alert.condition) {
+    case "ABOVE":
+      return { triggered: quote.currentPrice >= threshold, changePercent, referencePrice: null };
+    case "BELOW":
+      return { triggered: quote.currentPrice <= threshold, changePercent, referencePrice: null };
+    case "CHANGE_PERCENT":
+      // A negative threshold is a fall of that size
+      return {
+        triggered: threshold > 0 ? changePercent >= threshold : changePercent <= threshold,
+        changePercent,
+        referencePrice: null
+      };
+    case "CROSS_DAY_HIGH": {
+      // The high may have been made and given back between checks
+      const high = Math.max(quote.dayHigh, quote.currentPrice);
+      return { triggered: reference !== null && high > reference, changePercent, referencePrice: high };
+    }
+    case "CROSS_DAY_LOW": {
+      const low = quote.dayLow > 0 ? Math.min(quote.dayLow, quote.currentPrice) : quote.currentPrice;
+      return { triggered: reference !== null && low < reference, changePercent, referencePrice: low };
+    }
+    default:
+      return { triggered: false, changePercent, referencePrice: reference };
+  }
+}
@@ -0,0 +1,191 @@
+import type { Trade } from "@shared/schema";
+import { istDate } from "./trading-calendar";
+
+// Trading days per year used to annualise daily statistics
+const TRADING_DAYS_PER_YEAR = 252;
+
+// Annual risk-free rate for Sharpe/Sortino, e.g. ANALYTICS_RISK_FREE_RATE=0.065 for 6.5%
+export const RISK_FREE_RATE = parseFloat(process.env.ANALYTICS_RISK_FREE_RATE || "0.065");
+
+export interface DailyValuation {
+  pnl: number; // cumulative P&L at the day's close, net of charges
+  marketValue: number; // signed value of what is still held at the day's close
+}
+
+export interface CashFlow {
+  amount: number; // negative for money put in, positive for money taken out
+  date: Date;
+}
+
+// Price to value an instrument ("symbol-exchange") at a date's close; undefined when none is known
+export type MarkLookup = (key: string, date: string) => number | undefined;
+
+// Replay trades and value what they leave open at each day's close.
+// The P&L of any set of trades is what it holds at market less the net cash it spent and its charges,
+// so no cost basis needs tracking. Days without a mark use the instrument's last traded price.
+export function valueTradesDaily(trades: Trade[], dates: string[], markFor: MarkLookup): DailyValuation[] {
+  const ordered = [...trades].sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime() || a.id - b.id);
+  const holdings = new Map<string, { quantity: number; netCost: number; lastPrice: number }>();
+  let charges = 0;
+  let next = 0;
+
+  return dates.map(date => {
+    while (next < ordered.length && istDate(ordered[next].executedAt) <= date) {
+      const trade = ordered[next++];
+      const key = `${trade.symbol}-${trade.exchange}`;
+      const holding = holdings.get(key) || { quantity: 0, netCost: 0, lastPrice: 0 };
+      const direction = trade.tradeType === "BUY" ? 1 : -1;
+      holding.quantity += direction * trade.quantity;
+      holding.netCost += direction * parseFloat(trade.totalValue);
+      holding.lastPrice = parseFloat(trade.price);
+      holdings.set(key, holding);
+      charges += parseFloat(trade.totalCharges);
+    }
+
+    let marketValue = 0;
+    let netCost = 0;
+    holdings.forEach((holding, key) => {
+      const mark = holding.quantity !== 0 ? markFor(key, date) ?? holding.lastPrice : 0;
+      marketValue += holding.quantity * mark;
+      netCost += holding.netCost;
+    });
+
+    return { pnl: marketValue - netCost - charges, marketValue };
+  });
+}
+
+// Annualised money-weighted return solving sum(amount / (1 + rate)^years) = 0; null when it has no solution
+export function xirr(flows: CashFlow[]): number | null {
+  if (!flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) return null;
+
+  const start = flows.reduce((earliest, flow) => Math.min(earliest, flow.date.getTime()), Infinity);
+  const years = flows.map(flow => (flow.date.getTime() - start) / (365 * 24 * 60 * 60 * 1000));
+  const npv = (rate: number) => flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const slope = (rate: number) => flows.reduce((sum, flow, i) => sum - years[i] * flow.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+  // Newton's method converges quickly from a sensible guess
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    const derivative = slope(rate);
+    if (!Number.isFinite(derivative) || derivative === 0) break;
+    const nextRate = rate - value / derivative;
+    if (!Number.isFinite(nextRate) || nextRate <= -1) break;
+    rate = nextRate;
+  }
+
+  // Otherwise bisect, which needs the NPV to change sign over the bracket
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Largest fall from a running peak, as a fraction of that peak
+export function maxDrawdown(points: { date: string; value: number }[]) {
+  let peak = points.length ? points[0] : undefined;
+  let worst = { drawdown: 0, peakDate: null as string | null, troughDate: null as string | null };
+
+  for (const point of points) {
+    if (!peak || point.value > peak.value) peak = point;
+    const drawdown = peak.value > 0 ? (peak.value - point.value) / peak.value : 0;
+    if (drawdown > worst.drawdown) {
+      worst = { drawdown, peakDate: peak.date, troughDate: point.date };
+    }
+  }
+  return worst;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+export function annualizedVolatility(dailyReturns: number[]): number {
+  return standardDeviation(dailyReturns) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+// Annualised excess return per unit of total (Sharpe) or downside (Sortino) volatility; null without enough data
+export function sharpeRatio(dailyReturns: number[], riskFreeRate: number = RISK_FREE_RATE): number | null {
+  const deviation = standardDeviation(dailyReturns);
+  if (deviation === 0) return null;
+  const excess = mean(dailyReturns) - riskFreeRate / TRADING_DAYS_PER_YEAR;
+  return (excess / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+export function sortinoRatio(dailyReturns: number[], riskFreeRate: number = RISK_FREE_RATE): number | null {
+  if (dailyReturns.length < 2) return null;
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const downside = Math.sqrt(mean(dailyReturns.map(value => Math.min(0, value - dailyRiskFree) ** 2)));
+  if (downside === 0) return null;
+  return ((mean(dailyReturns) - dailyRiskFree) / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+// Outcome of trades that closed lots, by their realized P&L
+export function closedTradeStats(closingTrades: Trade[]) {
+  const results = closingTrades
+    .filter(trade => trade.realizedPnL !== null)
+    .map(trade => parseFloat(trade.realizedPnL!));
+  const wins = results.filter(result => result > 0);
+  const losses = results.filter(result => result < 0);
+  const grossProfit = wins.reduce((sum, result) => sum + result, 0);
+  const grossLoss = losses.reduce((sum, result) => sum - result, 0);
+
+  return {
+    closedTrades: results.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: results.length ? (wins.length / results.length) * 100 : 0,
+    averageWin: wins.length ? grossProfit / wins.length : 0,
+    averageLoss: losses.length ? grossLoss / losses.length : 0,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null
+  };
+}
+
+// How daily returns moved against a benchmark's over the same days. Alpha (Jensen's) and tracking
+// error are annualised; null where the benchmark did not move enough to measure against.
+export function benchmarkStats(portfolioReturns: number[], benchmarkReturns: number[], riskFreeRate: number = RISK_FREE_RATE) {
+  const count = Math.min(portfolioReturns.length, benchmarkReturns.length);
+  const portfolio = portfolioReturns.slice(0, count);
+  const benchmark = benchmarkReturns.slice(0, count);
+  const portfolioMean = mean(portfolio);
+  const benchmarkMean = mean(benchmark);
+
+  let covariance = 0;
+  let benchmarkVariance = 0;
+  for (let i = 0; i < count; i++) {
+    covariance += (portfolio[i] - portfolioMean) * (benchmark[i] - benchmarkMean);
+    benchmarkVariance += (benchmark[i] - benchmarkMean) ** 2;
+  }
+
+  const beta = count >= 2 && benchmarkVariance > 0 ? covariance / benchmarkVariance : null;
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const alpha = beta === null
+    ? null
+    : (portfolioMean - dailyRiskFree - beta * (benchmarkMean - dailyRiskFree)) * TRADING_DAYS_PER_YEAR;
+  const active = portfolio.map((value, i) => value - benchmark[i]);
+  const trackingError = standardDeviation(active) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  return {
+    beta,
+    alpha,
+    trackingError,
+    informationRatio: trackingError > 0 ? (mean(active) * TRADING_DAYS_PER_YEAR) / trackingError : null
+  };
+}
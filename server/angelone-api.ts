@@ -1,4 +1,6 @@
 import axios from 'axios';
+import type { StockPrice } from '@shared/schema';
+import type { Instrument, MarketDataProvider } from './market-data';
 
 interface AngelOneConfig {
   apiKey: string;
@@ -25,7 +27,8 @@ interface StockQuote {
   volume: number;
 }
 
-export class AngelOneAPI {
+export class AngelOneAPI implements MarketDataProvider {
+  readonly name = 'angelone';
   private config: AngelOneConfig;
   private jwtToken: string | null = null;
   private refreshToken: string | null = null;
@@ -107,6 +110,93 @@ export class AngelOneAPI {
     }
   }
 
+  // Map a symbol to its Angel One token and return the LTP snapshot in the common price shape
+  async getPrice(symbol: string, exchange: string): Promise<StockPrice> {
+    const token = STOCK_TOKENS[symbol];
+    if (!token || token.exchange !== exchange) {
+      throw new Error(`No Angel One symbol token for ${symbol} on ${exchange}`);
+    }
+
+    const quote = await this.getQuote(exchange, token.token);
+    const change = quote.ltp - quote.close;
+
+    return {
+      symbol,
+      exchange,
+      currentPrice: quote.ltp,
+      change,
+      changePercent: quote.close ? (change / quote.close) * 100 : 0,
+      dayHigh: quote.high,
+      dayLow: quote.low,
+      dayOpen: quote.open,
+      previousClose: quote.close,
+      volume: quote.volume || 0
+    };
+  }
+
+  // Full quotes for several symbols in one market quote request
+  async getPrices(instruments: Instrument[]): Promise<StockPrice[]> {
+    if (!this.jwtToken) {
+      throw new Error('Not authenticated. Please login first.');
+    }
+
+    const exchangeTokens: Record<string, string[]> = {};
+    const symbolsByToken = new Map<string, string>();
+    for (const { symbol, exchange } of instruments) {
+      const token = STOCK_TOKENS[symbol];
+      if (!token || token.exchange !== exchange) continue;
+
+      exchangeTokens[exchange] = [...(exchangeTokens[exchange] || []), token.token];
+      symbolsByToken.set(`${exchange}-${token.token}`, symbol);
+    }
+
+    if (symbolsByToken.size === 0) {
+      return [];
+    }
+
+    try {
+      const response = await axios.post(`${this.baseUrl}/rest/secure/angelbroking/market/v1/quote/`, {
+        mode: 'FULL',
+        exchangeTokens
+      }, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'X-UserType': 'USER',
+          'X-SourceID': 'WEB',
+          'X-ClientLocalIP': '192.168.1.1',
+          'X-ClientPublicIP': '192.168.1.1',
+          'X-MACAddress': '00:00:00:00:00:00',
+          'X-PrivateKey': this.config.apiKey,
+          'Authorization': `Bearer ${this.jwtToken}`
+        }
+      });
+
+      if (!response.data.status || !response.data.data) {
+        throw new Error(response.data.message || 'Failed to get quotes');
+      }
+
+      return (response.data.data.fetched || [])
+        .filter((quote: any) => symbolsByToken.has(`${quote.exchange}-${quote.symbolToken}`))
+        .map((quote: any) => ({
+          symbol: symbolsByToken.get(`${quote.exchange}-${quote.symbolToken}`)!,
+          exchange: quote.exchange,
+          currentPrice: quote.ltp,
+          change: quote.netChange ?? quote.ltp - quote.close,
+          changePercent: quote.percentChange ?? (quote.close ? ((quote.ltp - quote.close) / quote.close) * 100 : 0),
+          dayHigh: quote.high,
+          dayLow: quote.low,
+          dayOpen: quote.open,
+          previousClose: quote.close,
+          volume: quote.tradeVolume || 0,
+          bid: quote.depth?.buy?.[0]?.price || undefined,
+          ask: quote.depth?.sell?.[0]?.price || undefined
+        }));
+    } catch (error: any) {
+      throw new Error(`Failed to get quotes: ${error.message}`);
+    }
+  }
+
   async searchScrips(searchtext: string): Promise<any[]> {
     if (!this.jwtToken) {
       throw new Error('Not authenticated. Please login first.');
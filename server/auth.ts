@@ -0,0 +1,137 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword } from "./password";
+import { registerUserSchema, loginSchema, type User } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      sessionToken?: string;
+    }
+  }
+}
+
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_HOURS || "168") * 60 * 60 * 1000;
+
+// Never send the password hash back to the client
+function toPublicUser(user: User) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+function extractToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header && header.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return undefined;
+}
+
+// Sessions are stored under a hash of their token, so a read of the sessions table yields no usable credentials
+export function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function startSession(userId: number) {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await storage.createSession(userId, hashSessionToken(token), expiresAt);
+  return { token, expiresAt };
+}
+
+// Resolve the bearer token to a user and attach it to the request
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = extractToken(req);
+    if (!token) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const session = await storage.getSession(hashSessionToken(token));
+    if (!session || session.expiresAt.getTime() <= Date.now()) {
+      if (session) {
+        await storage.deleteSession(session.tokenHash);
+      }
+      return res.status(401).json({ error: "Session expired or invalid" });
+    }
+
+    const user = await storage.getUser(session.userId);
+    if (!user) {
+      return res.status(401).json({ error: "Session expired or invalid" });
+    }
+
+    req.user = user;
+    req.sessionToken = token;
+    next();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to authenticate request" });
+  }
+}
+
+export function setupAuth(app: Express) {
+  // Register a new account
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      const { username, password } = registerUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password)
+      });
+      if (!user) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+      const session = await startSession(user.id);
+
+      res.status(201).json({ user: toPublicUser(user), ...session });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid registration data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to register user" });
+    }
+  });
+
+  // Log in with username and password
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const { username, password } = loginSchema.parse(req.body);
+
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      const session = await startSession(user.id);
+      res.json({ user: toPublicUser(user), ...session });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid login data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to log in" });
+    }
+  });
+
+  // Log out by revoking the current session token
+  app.post("/api/auth/logout", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteSession(hashSessionToken(req.sessionToken!));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to log out" });
+    }
+  });
+
+  // Get the currently authenticated user
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
@@ -0,0 +1,65 @@
+import type { Order } from "@shared/schema";
+import type { NewOrder } from "./storage";
+import { nextSessionClose } from "./trading-calendar";
+
+// Resolve a take-profit/stop-loss setting into a price level.
+// PERCENTAGE is relative to the entry price, ABSOLUTE is the price itself.
+export function resolveBracketPrice(type: string, value: string, entryPrice: number, direction: 1 | -1): number {
+  const amount = parseFloat(value);
+  if (type === "PERCENTAGE") {
+    return entryPrice * (1 + direction * amount / 100);
+  }
+  return amount;
+}
+
+// Intraday exit legs lapse with the session; delivery legs stay until they fill or are cancelled
+function exitLegValidity(order: Order) {
+  return order.product === "MIS"
+    ? { validity: "DAY", expiresAt: nextSessionClose() }
+    : { validity: "GTC" };
+}
+
+// Exit legs protecting `quantity` shares of a filled BUY that carries take-profit/stop-loss settings.
+// Storage creates them in the same transaction that moves the entry to its final state.
+export function bracketLegs(order: Order, quantity: number, entryPrice: number): NewOrder[] {
+  if (order.parentOrderId || order.orderType !== "BUY" || quantity <= 0) return [];
+
+  const legs: NewOrder[] = [];
+  const leg = {
+    userId: order.userId,
+    symbol: order.symbol,
+    exchange: order.exchange,
+    orderType: "SELL",
+    product: order.product,
+    ...exitLegValidity(order),
+    quantity,
+    parentOrderId: order.id
+  };
+
+  if (order.takeProfitType && order.takeProfitValue) {
+    const targetPrice = resolveBracketPrice(order.takeProfitType, order.takeProfitValue, entryPrice, 1);
+    if (targetPrice > entryPrice) {
+      legs.push({ ...leg, priceType: "LIMIT", limitPrice: targetPrice.toFixed(2), legType: "TAKE_PROFIT" });
+    } else {
+      console.warn(`Skipping take-profit for order ${order.id}: target ${targetPrice.toFixed(2)} is not above entry`);
+    }
+  }
+
+  if (order.stopLossType && order.stopLossValue) {
+    const stopPrice = resolveBracketPrice(order.stopLossType, order.stopLossValue, entryPrice, -1);
+    if (stopPrice < entryPrice && stopPrice > 0) {
+      legs.push({ ...leg, priceType: "STOP", triggerPrice: stopPrice.toFixed(2), legType: "STOP_LOSS" });
+    } else {
+      console.warn(`Skipping stop-loss for order ${order.id}: stop ${stopPrice.toFixed(2)} is not below entry`);
+    }
+  }
+
+  return legs;
+}
+
+// Exit legs for what a bracket entry filled before it was cancelled or expired, capped at the shares
+// still held. None at MIS square-off, which is about to close the position itself.
+export function stoppedEntryLegs(order: Order, heldQuantity: number): NewOrder[] {
+  if (order.filledQuantity === 0 || order.cancellationReason === "MIS_SQUARE_OFF") return [];
+  return bracketLegs(order, Math.min(order.filledQuantity, heldQuantity), parseFloat(order.averageFillPrice!));
+}
@@ -0,0 +1,118 @@
+import type { ChargeBreakdown } from "@shared/schema";
+
+export type ChargeSegment = "DELIVERY" | "INTRADAY";
+
+interface SegmentRates {
+  brokeragePercent: number;
+  brokerageCap: number; // per executed order; 0 means no cap
+  sttBuyPercent: number;
+  sttSellPercent: number;
+  stampDutyBuyPercent: number;
+  dpChargesPerSell: number; // depository charge per delivery sell, GST inclusive
+}
+
+export interface ChargesConfig {
+  delivery: SegmentRates;
+  intraday: SegmentRates;
+  exchangeTransactionPercent: Record<string, number>; // keyed by exchange
+  sebiFeePercent: number;
+  gstPercent: number; // applied to brokerage, exchange charges and SEBI fees
+}
+
+// Discount-broker equity rates; override any of them with the CHARGES_CONFIG JSON env var
+export const DEFAULT_CHARGES_CONFIG: ChargesConfig = {
+  delivery: {
+    brokeragePercent: 0,
+    brokerageCap: 0,
+    sttBuyPercent: 0.1,
+    sttSellPercent: 0.1,
+    stampDutyBuyPercent: 0.015,
+    dpChargesPerSell: 15.93
+  },
+  intraday: {
+    brokeragePercent: 0.03,
+    brokerageCap: 20,
+    sttBuyPercent: 0,
+    sttSellPercent: 0.025,
+    stampDutyBuyPercent: 0.003,
+    dpChargesPerSell: 0
+  },
+  exchangeTransactionPercent: {
+    NSE: 0.00297,
+    BSE: 0.00375
+  },
+  sebiFeePercent: 0.0001,
+  gstPercent: 18
+};
+
+export interface ChargeRequest {
+  side: string; // BUY or SELL
+  quantity: number;
+  price: number;
+  exchange: string;
+  segment: ChargeSegment;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function loadConfig(): ChargesConfig {
+  if (!process.env.CHARGES_CONFIG) return DEFAULT_CHARGES_CONFIG;
+
+  try {
+    const overrides = JSON.parse(process.env.CHARGES_CONFIG);
+    return {
+      ...DEFAULT_CHARGES_CONFIG,
+      ...overrides,
+      delivery: { ...DEFAULT_CHARGES_CONFIG.delivery, ...overrides.delivery },
+      intraday: { ...DEFAULT_CHARGES_CONFIG.intraday, ...overrides.intraday },
+      exchangeTransactionPercent: { ...DEFAULT_CHARGES_CONFIG.exchangeTransactionPercent, ...overrides.exchangeTransactionPercent }
+    };
+  } catch (error) {
+    console.error("Invalid CHARGES_CONFIG, using default charges:", error);
+    return DEFAULT_CHARGES_CONFIG;
+  }
+}
+
+export class ChargesEngine {
+  constructor(private config: ChargesConfig = DEFAULT_CHARGES_CONFIG) {}
+
+  calculate(request: ChargeRequest): ChargeBreakdown {
+    const rates = request.segment === "INTRADAY" ? this.config.intraday : this.config.delivery;
+    const isBuy = request.side === "BUY";
+    const turnover = request.quantity * request.price;
+
+    let brokerage = turnover * rates.brokeragePercent / 100;
+    if (rates.brokerageCap > 0) {
+      brokerage = Math.min(brokerage, rates.brokerageCap);
+    }
+
+    const stt = turnover * (isBuy ? rates.sttBuyPercent : rates.sttSellPercent) / 100;
+    const exchangeCharges = turnover * (this.config.exchangeTransactionPercent[request.exchange] ?? 0) / 100;
+    const sebiFees = turnover * this.config.sebiFeePercent / 100;
+    const stampDuty = isBuy ? turnover * rates.stampDutyBuyPercent / 100 : 0;
+    const dpCharges = isBuy ? 0 : rates.dpChargesPerSell;
+    const gst = (brokerage + exchangeCharges + sebiFees) * this.config.gstPercent / 100;
+
+    const breakdown = {
+      brokerage: round2(brokerage),
+      stt: Math.round(stt), // STT is rounded to the nearest rupee
+      exchangeCharges: round2(exchangeCharges),
+      sebiFees: round2(sebiFees),
+      stampDuty: round2(stampDuty),
+      gst: round2(gst),
+      dpCharges: round2(dpCharges)
+    };
+    const totalCharges = round2(Object.values(breakdown).reduce((sum, charge) => sum + charge, 0));
+
+    return {
+      turnover: round2(turnover),
+      ...breakdown,
+      totalCharges,
+      netAmount: round2(isBuy ? turnover + totalCharges : turnover - totalCharges)
+    };
+  }
+}
+
+export const chargesEngine = new ChargesEngine(loadConfig());
@@ -0,0 +1,43 @@
+import { EventEmitter } from "events";
+import type { Order, OrderFieldChanges, Position, PriceAlert, PriceAlertTrigger, Trade } from "@shared/schema";
+
+export type TradingEvent =
+  | { type: "order.placed"; userId: number; order: Order }
+  | { type: "order.modified"; userId: number; order: Order; changes: OrderFieldChanges }
+  | { type: "order.filled"; userId: number; order: Order; trade: Trade }
+  | { type: "order.cancelled"; userId: number; order: Order }
+  | { type: "order.expired"; userId: number; order: Order }
+  | { type: "order.rejected"; userId: number; order: Order }
+  | { type: "position.updated"; userId: number; symbol: string; exchange: string; product: string; position: Position | null }
+  | { type: "alert.triggered"; userId: number; alert: PriceAlert; trigger: PriceAlertTrigger };
+
+export type TradingEventType = TradingEvent["type"];
+
+const EVENT = "trading-event";
+
+// In-process bus that order execution publishes to and push channels subscribe to
+class TradingEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(50);
+  }
+
+  publish(event: TradingEvent) {
+    // A failing subscriber must not break the code path that published the event
+    for (const listener of this.emitter.listeners(EVENT)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Trading event listener failed for ${event.type}:`, error);
+      }
+    }
+  }
+
+  subscribe(listener: (event: TradingEvent) => void): () => void {
+    this.emitter.on(EVENT, listener);
+    return () => this.emitter.off(EVENT, listener);
+  }
+}
+
+export const tradingEvents = new TradingEventBus();
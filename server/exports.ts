@@ -0,0 +1,388 @@
+import { deflateRawSync } from "zlib";
+import type { Order, Trade } from "@shared/schema";
+import { istDate, istTimestamp } from "./trading-calendar";
+
+// Tabular exports as CSV or as an XLSX workbook. The workbook is written by hand:
+// an XLSX file is a zip of a few XML parts, which zlib's raw deflate is enough to build.
+
+export type Cell = string | number | null;
+
+export interface Sheet {
+  name: string;
+  header: string[];
+  rows: Cell[][];
+}
+
+export const EXPORT_CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_CONTENT_TYPES;
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function textCell(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function csvField(cell: Cell): string {
+  if (cell === null) return "";
+  if (typeof cell === "number") return cell.toString();
+
+  const text = textCell(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(sheet: Sheet): string {
+  return [sheet.header, ...sheet.rows]
+    .map(row => row.map(csvField).join(","))
+    .join("\r\n") + "\r\n";
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "");
+}
+
+// Column letters for a zero-based index: 0 -> A, 26 -> AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(sheet: Sheet): string {
+  const rows = [sheet.header, ...sheet.rows].map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      const style = rowIndex === 0 ? ' s="1"' : "";
+      if (cell === null) return "";
+      if (typeof cell === "number") {
+        return Number.isFinite(cell) ? `<c r="${ref}"${style}><v>${cell}</v></c>` : "";
+      }
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(textCell(cell))}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rows.join("")}</sheetData></worksheet>`;
+}
+
+// Sheet names are at most 31 characters, unique, and cannot contain : \ / ? * [ ]
+function sheetNames(sheets: Sheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    let name = sheet.name.replace(/[:\\/?*[\]]/g, "-").slice(0, 31) || `Sheet${i + 1}`;
+    if (used.has(name.toLowerCase())) name = `${name.slice(0, 27)} (${i + 1})`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields used by zip headers
+function dosDateTime(at: Date) {
+  return {
+    time: (at.getHours() << 11) | (at.getMinutes() << 5) | Math.floor(at.getSeconds() / 2),
+    date: ((at.getFullYear() - 1980) << 9) | ((at.getMonth() + 1) << 5) | at.getDate()
+  };
+}
+
+function zip(files: { name: string; content: string }[], at: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(at);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const data = Buffer.from(file.content, "utf8");
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // extra, comment, disk and attribute fields stay zero
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+export function toXlsx(sheets: Sheet[]): Buffer {
+  const names = sheetNames(sheets);
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+  const contentTypes = xmlHeader +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    names.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("") +
+    "</Types>";
+
+  const rootRels = xmlHeader +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>";
+
+  const workbook = xmlHeader +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+    names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+    "</sheets></workbook>";
+
+  const workbookRels = xmlHeader +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    names.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("") +
+    `<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    "</Relationships>";
+
+  // Style 1 is the bold header row
+  const styles = xmlHeader +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    "</styleSheet>";
+
+  return zip([
+    { name: "[Content_Types].xml", content: contentTypes },
+    { name: "_rels/.rels", content: rootRels },
+    { name: "xl/workbook.xml", content: workbook },
+    { name: "xl/_rels/workbook.xml.rels", content: workbookRels },
+    { name: "xl/styles.xml", content: styles },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet) }))
+  ]);
+}
+
+// <username>_<kind>_<from>_to_<to>.<format>, with anything unsafe in a filename replaced
+export function exportFilename(username: string, kind: string, from: string, to: string, format: ExportFormat): string {
+  const safeUsername = username.replace(/[^a-zA-Z0-9_.-]/g, "_");
+  return `${safeUsername}_${kind}_${from}_to_${to}.${format}`;
+}
+
+function amount(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+export function tradesSheet(trades: Trade[]): Sheet {
+  return {
+    name: "Trades",
+    header: [
+      "Trade ID", "Order ID", "Executed At (IST)", "Symbol", "Exchange", "Side", "Product", "Quantity", "Price", "Value",
+      "Brokerage", "STT", "Exchange Charges", "SEBI Fees", "Stamp Duty", "GST", "DP Charges", "Total Charges", "Net Amount", "Realized P&L"
+    ],
+    rows: trades.map(trade => [
+      trade.id,
+      trade.orderId,
+      istTimestamp(trade.executedAt),
+      trade.symbol,
+      trade.exchange,
+      trade.tradeType,
+      trade.product,
+      trade.quantity,
+      amount(trade.price),
+      amount(trade.totalValue),
+      amount(trade.brokerage),
+      amount(trade.stt),
+      amount(trade.exchangeCharges),
+      amount(trade.sebiFees),
+      amount(trade.stampDuty),
+      amount(trade.gst),
+      amount(trade.dpCharges),
+      amount(trade.totalCharges),
+      amount(trade.netAmount),
+      amount(trade.realizedPnL)
+    ])
+  };
+}
+
+export function ordersSheet(orders: Order[]): Sheet {
+  return {
+    name: "Orders",
+    header: [
+      "Order ID", "Placed At (IST)", "Symbol", "Exchange", "Side", "Product", "Price Type", "Validity", "Quantity", "Filled Quantity",
+      "Limit Price", "Trigger Price", "Average Fill Price", "Status", "Rejection Reason", "Cancellation Reason", "Cancelled At (IST)", "Last Fill At (IST)"
+    ],
+    rows: orders.map(order => [
+      order.id,
+      istTimestamp(order.createdAt),
+      order.symbol,
+      order.exchange,
+      order.orderType,
+      order.product,
+      order.priceType,
+      order.validity,
+      order.quantity,
+      order.filledQuantity,
+      amount(order.limitPrice),
+      amount(order.triggerPrice),
+      amount(order.averageFillPrice),
+      order.status,
+      order.rejectionReason,
+      order.cancellationReason,
+      order.cancelledAt ? istTimestamp(order.cancelledAt) : null,
+      order.executedAt ? istTimestamp(order.executedAt) : null
+    ])
+  };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Net amount as a contract note shows it: negative when payable (BUY), positive when receivable (SELL)
+function signedNet(trade: Trade): number {
+  return (trade.tradeType === "BUY" ? -1 : 1) * parseFloat(trade.netAmount);
+}
+
+function byDay(trades: Trade[]): Map<string, Trade[]> {
+  const days = new Map<string, Trade[]>();
+  for (const trade of [...trades].sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime() || a.id - b.id)) {
+    const date = istDate(trade.executedAt);
+    days.set(date, [...(days.get(date) || []), trade]);
+  }
+  return days;
+}
+
+const STATEMENT_HEADER = ["Trade ID", "Order ID", "Time (IST)", "Symbol", "Exchange", "Side", "Product", "Quantity", "Price", "Value", "Charges", "Net Amount"];
+
+function statementLine(trade: Trade): Cell[] {
+  return [
+    trade.id,
+    trade.orderId,
+    istTimestamp(trade.executedAt).slice(11),
+    trade.symbol,
+    trade.exchange,
+    trade.tradeType,
+    trade.product,
+    trade.quantity,
+    amount(trade.price),
+    amount(trade.totalValue),
+    amount(trade.totalCharges),
+    signedNet(trade)
+  ];
+}
+
+// Turnover, charges and net obligation of a day's trades, as the closing row of its statement
+function statementTotal(trades: Trade[]): Cell[] {
+  const sum = (value: (trade: Trade) => number) => round2(trades.reduce((total, trade) => total + value(trade), 0));
+  return [
+    "Total", null, null, null, null, null, null,
+    trades.reduce((total, trade) => total + trade.quantity, 0),
+    null,
+    sum(trade => parseFloat(trade.totalValue)),
+    sum(trade => parseFloat(trade.totalCharges)),
+    sum(signedNet)
+  ];
+}
+
+// Per-day statement resembling a contract note: a summary sheet with each day's buy/sell value,
+// itemised charges and net obligation, then one sheet of trade lines per day
+export function statementSheets(trades: Trade[]): Sheet[] {
+  const days = byDay(trades);
+  const sum = (dayTrades: Trade[], value: (trade: Trade) => number) =>
+    round2(dayTrades.reduce((total, trade) => total + value(trade), 0));
+
+  const summary: Sheet = {
+    name: "Summary",
+    header: [
+      "Date", "Trades", "Buy Value", "Sell Value", "Brokerage", "STT", "Exchange Charges", "SEBI Fees",
+      "Stamp Duty", "GST", "DP Charges", "Total Charges", "Net Obligation"
+    ],
+    rows: Array.from(days.entries()).map(([date, dayTrades]) => [
+      date,
+      dayTrades.length,
+      sum(dayTrades, trade => trade.tradeType === "BUY" ? parseFloat(trade.totalValue) : 0),
+      sum(dayTrades, trade => trade.tradeType === "SELL" ? parseFloat(trade.totalValue) : 0),
+      sum(dayTrades, trade => parseFloat(trade.brokerage)),
+      sum(dayTrades, trade => parseFloat(trade.stt)),
+      sum(dayTrades, trade => parseFloat(trade.exchangeCharges)),
+      sum(dayTrades, trade => parseFloat(trade.sebiFees)),
+      sum(dayTrades, trade => parseFloat(trade.stampDuty)),
+      sum(dayTrades, trade => parseFloat(trade.gst)),
+      sum(dayTrades, trade => parseFloat(trade.dpCharges)),
+      sum(dayTrades, trade => parseFloat(trade.totalCharges)),
+      sum(dayTrades, signedNet)
+    ])
+  };
+
+  const daySheets = Array.from(days.entries()).map(([date, dayTrades]) => ({
+    name: date,
+    header: STATEMENT_HEADER,
+    rows: [...dayTrades.map(statementLine), statementTotal(dayTrades)]
+  }));
+
+  return [summary, ...daySheets];
+}
+
+// The same statement as one CSV table: each day's trade lines followed by its total row
+export function statementCsvSheet(trades: Trade[]): Sheet {
+  const rows: Cell[][] = [];
+  byDay(trades).forEach((dayTrades, date) => {
+    dayTrades.forEach(trade => rows.push([date, ...statementLine(trade)]));
+    rows.push([date, ...statementTotal(dayTrades)]);
+  });
+  return { name: "Statement", header: ["Date", ...STATEMENT_HEADER], rows };
+}
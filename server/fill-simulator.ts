@@ -0,0 +1,85 @@
+import type { Order, StockPrice } from "@shared/schema";
+
+export interface FillConfig {
+  volumeFraction: number; // share of the traded volume our orders may take; 0 disables the bound
+  slippageBps: number; // adverse move applied to every fill, in basis points
+}
+
+export interface SimulatedFill {
+  quantity: number;
+  price: number;
+}
+
+interface Liquidity {
+  volume: number; // cumulative day volume when last observed
+  available: number; // shares still fillable against that observation
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Price an order trades against: the ask for a BUY, the bid for a SELL, else the last price
+export function touchPrice(order: Pick<Order, "orderType">, quote: StockPrice): number {
+  const side = order.orderType === "BUY" ? quote.ask : quote.bid;
+  return side && side > 0 ? side : quote.currentPrice;
+}
+
+// Simulates how much of an order the market would absorb and at what price.
+// Each instrument gets a fraction of the volume traded since it was last observed,
+// shared by every order in it, so large orders fill in tranches across price checks.
+export class FillSimulator {
+  private liquidity = new Map<string, Liquidity>(); // key: symbol-exchange
+
+  constructor(private config: FillConfig) {}
+
+  private availableVolume(quote: StockPrice): number {
+    // Without volume data there is nothing to bound fills by
+    if (this.config.volumeFraction <= 0 || !quote.volume) return Infinity;
+
+    const key = `${quote.symbol}-${quote.exchange}`;
+    let state = this.liquidity.get(key);
+    if (!state || state.volume !== quote.volume) {
+      // Day volume only grows within a session; a drop means a new day (or a new provider)
+      const traded = state && quote.volume > state.volume ? quote.volume - state.volume : quote.volume;
+      state = { volume: quote.volume, available: Math.floor(traded * this.config.volumeFraction) };
+      this.liquidity.set(key, state);
+    }
+    return state.available;
+  }
+
+  private fillPrice(order: Order, quote: StockPrice): number {
+    const touch = touchPrice(order, quote);
+    const slippage = touch * this.config.slippageBps / 10000;
+    let price = order.orderType === "BUY" ? touch + slippage : touch - slippage;
+
+    // Slippage never takes a limit order through its limit
+    if (order.limitPrice && (order.priceType === "LIMIT" || order.priceType === "STOP_LIMIT")) {
+      const limitPrice = parseFloat(order.limitPrice);
+      price = order.orderType === "BUY" ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+    }
+    return round2(price);
+  }
+
+  // The next tranche of an order against this quote, or undefined when no liquidity is left
+  simulate(order: Order, quote: StockPrice): SimulatedFill | undefined {
+    const remaining = order.quantity - order.filledQuantity;
+    const quantity = Math.min(remaining, this.availableVolume(quote));
+    if (quantity <= 0) return undefined;
+
+    return { quantity, price: this.fillPrice(order, quote) };
+  }
+
+  // Take a completed fill out of the instrument's remaining liquidity
+  consume(quote: StockPrice, quantity: number) {
+    const state = this.liquidity.get(`${quote.symbol}-${quote.exchange}`);
+    if (state) {
+      state.available = Math.max(0, state.available - quantity);
+    }
+  }
+}
+
+export const fillSimulator = new FillSimulator({
+  volumeFraction: parseFloat(process.env.FILL_VOLUME_FRACTION || "0.1"),
+  slippageBps: parseFloat(process.env.FILL_SLIPPAGE_BPS || "5")
+});
@@ -1,8 +1,13 @@
 import { db } from "./db";
 import { users, stocks } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
+import { hashPassword, isPasswordHash } from "./password";
+import { storage, DatabaseStorage } from "./storage";
 
 export async function initializeDatabase() {
+  // In-memory storage seeds its own demo data
+  if (!(storage instanceof DatabaseStorage)) return;
+
   try {
     // Check if demo user already exists
     const [existingUser] = await db.select().from(users).where(eq(users.username, "demo"));
@@ -11,10 +16,17 @@ export async function initializeDatabase() {
       // Create demo user
       await db.insert(users).values({
         username: "demo",
-        password: "demo123",
+        password: await hashPassword("demo123"),
         balance: "100000.00"
       });
       console.log("Demo user created");
+    } else if (!isPasswordHash(existingUser.password)) {
+      // Upgrade demo user seeded with a plaintext password
+      await db
+        .update(users)
+        .set({ password: await hashPassword(existingUser.password) })
+        .where(eq(users.id, existingUser.id));
+      console.log("Demo user password hashed");
     }
 
     // Check if stocks are already initialized
@@ -0,0 +1,132 @@
+import type { ChargeBreakdown, Order, Position, TaxLot, User } from "@shared/schema";
+import { marginRequired } from "./margin";
+
+// Pure fill accounting shared by the storage implementations.
+// Positions are signed: long positions have a positive quantity, MIS short positions a negative one.
+
+export interface LotConsumption {
+  lotId: number;
+  quantity: number;
+  remainingQuantity: number;
+}
+
+export interface FillResult {
+  totalValue: number;
+  cashDelta: number; // cash moved net of charges; MIS fills only move the margin and the realized P&L
+  charges: ChargeBreakdown;
+  openedQuantity: number; // shares that opened or added to a position rather than closing one
+  // undefined when the position is untouched, null when it is closed
+  position: { quantity: number; averagePrice: number } | null | undefined;
+  newLot?: { side: string; quantity: number; price: number };
+  consumedLots: LotConsumption[];
+  realizedPnL: number | null;
+}
+
+// Reason a computed fill cannot be applied against the account's current cash and holdings
+export function validateFill(order: Order, user: User | undefined, fill: FillResult): string | undefined {
+  if (!user) return "ACCOUNT_NOT_FOUND";
+
+  // Only intraday positions can be sold short
+  if (order.orderType === "SELL" && fill.openedQuantity > 0 && order.product !== "MIS") {
+    return "INSUFFICIENT_HOLDINGS";
+  }
+  // Closing trades always go through, even at a loss, so a position can never get stuck open
+  if (fill.openedQuantity > 0 && parseFloat(user.balance) + fill.cashDelta < 0) {
+    return "INSUFFICIENT_FUNDS";
+  }
+  return undefined;
+}
+
+function byAcquisition(a: TaxLot, b: TaxLot): number {
+  return a.acquiredAt.getTime() - b.acquiredAt.getTime() || a.id - b.id;
+}
+
+// Close `quantity` shares against open lots of one side, oldest first
+export function matchLotsFifo(openLots: TaxLot[], quantity: number, price: number) {
+  let remaining = quantity;
+  let realizedPnL = 0;
+  let cost = 0;
+  const consumed: LotConsumption[] = [];
+
+  for (const lot of [...openLots].sort(byAcquisition)) {
+    if (remaining <= 0) break;
+
+    const matched = Math.min(lot.remainingQuantity, remaining);
+    if (matched <= 0) continue;
+
+    // A short lot gains when the price falls below where it was sold
+    const direction = lot.side === "SHORT" ? -1 : 1;
+    realizedPnL += direction * (price - parseFloat(lot.price)) * matched;
+    cost += parseFloat(lot.price) * matched;
+    consumed.push({ lotId: lot.id, quantity: matched, remainingQuantity: lot.remainingQuantity - matched });
+    remaining -= matched;
+  }
+
+  return { consumed, realizedPnL, cost, unmatchedQuantity: remaining };
+}
+
+// Position, cash and lot changes produced by filling `quantity` shares of an order
+export function computeFill(order: Order, quantity: number, existingPosition: Position | undefined, openLots: TaxLot[], executionPrice: number, charges: ChargeBreakdown): FillResult {
+  const totalValue = quantity * executionPrice;
+  const heldQuantity = existingPosition ? existingPosition.quantity : 0;
+  const averagePrice = existingPosition ? parseFloat(existingPosition.averagePrice) : 0;
+  const delta = order.orderType === "BUY" ? quantity : -quantity;
+
+  // A BUY against a short, or a SELL against a long, first closes what is held
+  const closingQuantity = heldQuantity * delta < 0 ? Math.min(Math.abs(heldQuantity), quantity) : 0;
+  const openedQuantity = quantity - closingQuantity;
+  const heldSide = heldQuantity > 0 ? "LONG" : "SHORT";
+  const sideLots = openLots.filter(lot => lot.side === heldSide);
+
+  let cashDelta = -charges.totalCharges;
+  let realizedPnL: number | null = null;
+  let consumedLots: LotConsumption[] = [];
+
+  if (closingQuantity > 0) {
+    const match = matchLotsFifo(sideLots, closingQuantity, executionPrice);
+    const direction = heldQuantity > 0 ? 1 : -1;
+
+    // Shares held from before lot tracking have no lots and are costed at the average price
+    realizedPnL = match.realizedPnL + direction * match.unmatchedQuantity * (executionPrice - averagePrice);
+    const closedCost = match.cost + match.unmatchedQuantity * averagePrice;
+
+    // Release the cash the closed shares blocked, plus what they made or lost
+    cashDelta += marginRequired(order.product, closedCost) + realizedPnL;
+    consumedLots = match.consumed;
+  }
+
+  let newLot: FillResult["newLot"];
+  if (openedQuantity > 0) {
+    cashDelta -= marginRequired(order.product, openedQuantity * executionPrice);
+    newLot = { side: delta > 0 ? "LONG" : "SHORT", quantity: openedQuantity, price: executionPrice };
+  }
+
+  const newQuantity = heldQuantity + delta;
+  let position: FillResult["position"];
+
+  if (newQuantity === 0) {
+    position = existingPosition ? null : undefined;
+  } else if (closingQuantity === 0) {
+    // Opening or adding to a position moves its average towards the fill price
+    const cost = Math.abs(heldQuantity) * averagePrice + quantity * executionPrice;
+    position = { quantity: newQuantity, averagePrice: cost / Math.abs(newQuantity) };
+  } else if (openedQuantity > 0) {
+    // Flipped between long and short: the new position is just the opened shares
+    position = { quantity: newQuantity, averagePrice: executionPrice };
+  } else {
+    // Keep the remaining position's cost basis on the lots it is made of, when they cover it
+    const remainingLots = sideLots
+      .map(lot => {
+        const consumption = consumedLots.find(c => c.lotId === lot.id);
+        return { price: parseFloat(lot.price), quantity: consumption ? consumption.remainingQuantity : lot.remainingQuantity };
+      })
+      .filter(lot => lot.quantity > 0);
+    const lotQuantity = remainingLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const remainingAverage = lotQuantity === Math.abs(newQuantity)
+      ? remainingLots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0) / lotQuantity
+      : averagePrice;
+    position = { quantity: newQuantity, averagePrice: remainingAverage };
+  }
+
+  return { totalValue, cashDelta, charges, openedQuantity, position, newLot, consumedLots, realizedPnL };
+}
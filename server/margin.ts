@@ -0,0 +1,17 @@
+import type { ChargeSegment } from "./charges";
+
+// Intraday (MIS) exposure is funded at MIS_LEVERAGE times the cash blocked for it
+const MIS_LEVERAGE = parseFloat(process.env.MIS_LEVERAGE || "5");
+
+// Fraction of a position's value that is blocked as cash
+export function marginRate(product: string): number {
+  return product === "MIS" && MIS_LEVERAGE > 1 ? 1 / MIS_LEVERAGE : 1;
+}
+
+export function marginRequired(product: string, value: number): number {
+  return value * marginRate(product);
+}
+
+export function chargeSegment(product: string): ChargeSegment {
+  return product === "MIS" ? "INTRADAY" : "DELIVERY";
+}
@@ -0,0 +1,229 @@
+import type { StockPrice } from "@shared/schema";
+
+export interface Instrument {
+  symbol: string;
+  exchange: string;
+}
+
+export interface ChartBar {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  getPrice(symbol: string, exchange: string): Promise<StockPrice>;
+  // Optional multi-symbol lookup in one upstream call; instruments it cannot price are left out
+  getPrices?(instruments: Instrument[]): Promise<StockPrice[]>;
+  // Optional OHLC history for a stock or index, oldest first
+  getChart?(symbol: string, exchange: string, interval: string, from: Date, to: Date): Promise<ChartBar[]>;
+}
+
+// Indices that performance can be compared against, in Yahoo notation
+export const BENCHMARK_INDICES: Record<string, Instrument> = {
+  "^NSEI": { symbol: "^NSEI", exchange: "NSE" }, // NIFTY 50
+  "^BSESN": { symbol: "^BSESN", exchange: "BSE" } // S&P BSE SENSEX
+};
+
+export function isIndexSymbol(symbol: string): boolean {
+  return symbol.startsWith("^");
+}
+
+// A provider that failed is skipped for this long while others are available
+const FAILURE_COOLDOWN_MS = 30000;
+
+// Tries providers in priority order and falls through to the next one on error
+export class FailoverMarketDataProvider implements MarketDataProvider {
+  readonly name = "failover";
+  private failedAt = new Map<string, number>();
+
+  constructor(private providers: MarketDataProvider[]) {
+    if (providers.length === 0) {
+      throw new Error("At least one market data provider is required");
+    }
+  }
+
+  // Healthy providers first; providers in cooldown are still tried as a last resort
+  private orderedProviders(): MarketDataProvider[] {
+    const now = Date.now();
+    const healthy = this.providers.filter(provider => now - (this.failedAt.get(provider.name) || 0) >= FAILURE_COOLDOWN_MS);
+    const cooling = this.providers.filter(provider => !healthy.includes(provider));
+    return [...healthy, ...cooling];
+  }
+
+  async getPrice(symbol: string, exchange: string): Promise<StockPrice> {
+    const errors: string[] = [];
+    for (const provider of this.orderedProviders()) {
+      try {
+        const price = await provider.getPrice(symbol, exchange);
+        this.failedAt.delete(provider.name);
+        return price;
+      } catch (error: any) {
+        this.failedAt.set(provider.name, Date.now());
+        errors.push(`${provider.name}: ${error.message}`);
+      }
+    }
+
+    throw new Error(`All market data providers failed for ${symbol}: ${errors.join("; ")}`);
+  }
+
+  // Batch lookup on the first-priority provider when it has one. Otherwise, or when the batch fails,
+  // each instrument goes through the ordered chain as in getPrice; instruments none can price are left out.
+  async getPrices(instruments: Instrument[]): Promise<StockPrice[]> {
+    const [first] = this.orderedProviders();
+    if (first.getPrices) {
+      try {
+        const prices = await first.getPrices(instruments);
+        this.failedAt.delete(first.name);
+        return prices;
+      } catch (error: any) {
+        this.failedAt.set(first.name, Date.now());
+        console.error(`Batch price lookup failed on ${first.name}:`, error.message);
+      }
+    }
+
+    const results = await Promise.allSettled(instruments.map(instrument => this.getPrice(instrument.symbol, instrument.exchange)));
+    return results.flatMap(result => result.status === "fulfilled" ? [result.value] : []);
+  }
+
+  // History from the first provider that has it
+  async getChart(symbol: string, exchange: string, interval: string, from: Date, to: Date): Promise<ChartBar[]> {
+    const errors: string[] = [];
+    for (const provider of this.orderedProviders()) {
+      if (!provider.getChart) continue;
+
+      try {
+        return await provider.getChart(symbol, exchange, interval, from, to);
+      } catch (error: any) {
+        errors.push(`${provider.name}: ${error.message}`);
+      }
+    }
+
+    throw new Error(`No market data provider has ${interval} history for ${symbol}${errors.length ? `: ${errors.join("; ")}` : ""}`);
+  }
+
+  getProviderNames(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+}
+
+interface SimulatedProviderOptions {
+  basePrices?: Record<string, number>; // key: symbol-exchange
+  now?: () => number;
+}
+
+// Offline provider whose prices are a pure function of symbol and time,
+// so runs without network access are reproducible
+export class SimulatedMarketDataProvider implements MarketDataProvider {
+  readonly name = "simulated";
+  private basePrices: Record<string, number>;
+  private now: () => number;
+
+  constructor(options: SimulatedProviderOptions = {}) {
+    this.basePrices = options.basePrices || {};
+    this.now = options.now || Date.now;
+  }
+
+  private hash(text: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+  }
+
+  private basePrice(symbol: string, exchange: string): number {
+    const configured = this.basePrices[`${symbol}-${exchange}`];
+    if (configured) return configured;
+    return 100 + (this.hash(symbol) % 4900);
+  }
+
+  async getPrice(symbol: string, exchange: string): Promise<StockPrice> {
+    const base = this.basePrice(symbol, exchange);
+    const phase = (this.hash(`${symbol}-${exchange}`) % 360) * Math.PI / 180;
+    const minute = Math.floor(this.now() / 60000);
+
+    // Gentle intraday oscillation of up to ±2% around the base price
+    const priceAt = (m: number) => base * (1 + 0.02 * Math.sin(m / 45 + phase));
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const previousClose = round(base);
+    const currentPrice = round(priceAt(minute));
+    const dayOpen = round(priceAt(minute - (minute % 1440)));
+    const change = round(currentPrice - previousClose);
+
+    return {
+      symbol,
+      exchange,
+      currentPrice,
+      change,
+      changePercent: round(change / previousClose * 100),
+      dayHigh: round(Math.max(currentPrice, dayOpen, base * 1.02)),
+      dayLow: round(Math.min(currentPrice, dayOpen, base * 0.98)),
+      dayOpen,
+      previousClose,
+      volume: 100000 + (this.hash(`${symbol}-${minute}`) % 900000),
+      // A fixed 0.05% spread either side of the last price
+      bid: round(currentPrice * 0.9995),
+      ask: round(currentPrice * 1.0005),
+      marketState: "REGULAR"
+    };
+  }
+
+  async getPrices(instruments: Instrument[]): Promise<StockPrice[]> {
+    return Promise.all(instruments.map(({ symbol, exchange }) => this.getPrice(symbol, exchange)));
+  }
+
+  // Daily bars drifting up to ±10% around the base price over a few months, one per weekday
+  async getChart(symbol: string, exchange: string, interval: string, from: Date, to: Date): Promise<ChartBar[]> {
+    if (interval !== "1d") {
+      throw new Error(`Simulated history only supports 1d bars, not ${interval}`);
+    }
+
+    const base = this.basePrice(symbol, exchange);
+    const phase = (this.hash(`${symbol}-${exchange}`) % 360) * Math.PI / 180;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const bars: ChartBar[] = [];
+
+    const day = new Date(from);
+    day.setUTCHours(3, 45, 0, 0); // 09:15 IST
+    for (; day <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+      if (day.getUTCDay() === 0 || day.getUTCDay() === 6) continue;
+
+      const dayNumber = Math.floor(day.getTime() / (24 * 60 * 60 * 1000));
+      const close = base * (1 + 0.1 * Math.sin(dayNumber / 30 + phase));
+      const open = base * (1 + 0.1 * Math.sin((dayNumber - 1) / 30 + phase));
+      bars.push({
+        timestamp: new Date(day),
+        open: round(open),
+        high: round(Math.max(open, close) * 1.005),
+        low: round(Math.min(open, close) * 0.995),
+        close: round(close),
+        volume: 100000 + (this.hash(`${symbol}-${dayNumber}`) % 900000)
+      });
+    }
+    return bars;
+  }
+}
+
+// Build the provider chain from a comma-separated priority list, e.g. "yahoo,angelone"
+export function createMarketDataProvider(available: Record<string, MarketDataProvider>, priority: string): FailoverMarketDataProvider {
+  const providers = priority
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0)
+    .map(name => {
+      const provider = available[name];
+      if (!provider) {
+        throw new Error(`Unknown market data provider "${name}". Available: ${Object.keys(available).join(", ")}`);
+      }
+      return provider;
+    });
+
+  return new FailoverMarketDataProvider(providers);
+}
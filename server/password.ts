@@ -0,0 +1,31 @@
+import { scrypt, scryptSync, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// Stored format is "<hash hex>.<salt hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+// Synchronous variant for seeding data at startup
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `${scryptSync(password, salt, KEY_LENGTH).toString("hex")}.${salt}`;
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return /^[0-9a-f]{128}\.[0-9a-f]{32}$/.test(stored);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) return false;
+
+  const [hashed, salt] = stored.split(".");
+  const storedBuffer = Buffer.from(hashed, "hex");
+  const derived = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return timingSafeEqual(storedBuffer, derived);
+}
@@ -0,0 +1,160 @@
+import { storage } from "./storage";
+import { istDayStart, isMarketOpen, isAfterSessionClose, nextSessionOpen } from "./trading-calendar";
+import type { Candle, CandleInterval, PriceBar, StockPrice } from "@shared/schema";
+import type { ChartBar } from "./market-data";
+
+const INTRADAY_INTERVALS = { "1m": 60 * 1000, "5m": 5 * 60 * 1000 } as const;
+type IntradayInterval = keyof typeof INTRADAY_INTERVALS;
+
+// A symbol's history is fetched upstream at most once in this window, however often candles are requested
+const BACKFILL_COOLDOWN_MS = 10 * 60 * 1000;
+
+// How far back a candle request reaches when no `from` is given
+export const DEFAULT_CANDLE_LOOKBACK_MS: Record<CandleInterval, number> = {
+  "1m": 24 * 60 * 60 * 1000,
+  "5m": 5 * 24 * 60 * 60 * 1000,
+  "1d": 365 * 24 * 60 * 60 * 1000
+};
+
+// Start of the bar containing `at`; daily bars start at IST midnight
+export function barStart(interval: CandleInterval, at: Date): Date {
+  if (interval === "1d") return istDayStart(at);
+
+  const size = INTRADAY_INTERVALS[interval];
+  return new Date(Math.floor(at.getTime() / size) * size);
+}
+
+// Start of the first bar a complete history from `from` has; nothing trades before the next open
+export function firstBarStart(interval: CandleInterval, from: Date): Date {
+  return barStart(interval, isMarketOpen(from) ? from : nextSessionOpen(from));
+}
+
+export function toCandle(bar: PriceBar): Candle {
+  return {
+    time: bar.startTime.toISOString(),
+    open: parseFloat(bar.open),
+    high: parseFloat(bar.high),
+    low: parseFloat(bar.low),
+    close: parseFloat(bar.close),
+    volume: bar.volume
+  };
+}
+
+interface LiveBar {
+  startTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Builds OHLCV bars from the stream of fetched quotes and stores backfilled chart data
+export class PriceHistoryRecorder {
+  private liveBars = new Map<string, LiveBar>(); // key: symbol-exchange-interval
+  private lastDayVolume = new Map<string, number>(); // key: symbol-exchange
+  private recentBackfills = new Map<string, { from: Date; at: number }>(); // key: symbol-exchange-interval
+
+  async recordQuote(price: StockPrice, at: Date = new Date()) {
+    const key = `${price.symbol}-${price.exchange}`;
+
+    // Before the open, and on weekends and holidays, quotes still carry the last session's OHLC
+    if (!isMarketOpen(at) && !isAfterSessionClose(at)) return;
+
+    // The daily bar is the session OHLC the quote already carries
+    await storage.upsertPriceBar({
+      symbol: price.symbol,
+      exchange: price.exchange,
+      interval: "1d",
+      startTime: istDayStart(at),
+      open: (price.dayOpen || price.currentPrice).toFixed(2),
+      high: Math.max(price.dayHigh, price.currentPrice).toFixed(2),
+      low: (price.dayLow ? Math.min(price.dayLow, price.currentPrice) : price.currentPrice).toFixed(2),
+      close: price.currentPrice.toFixed(2),
+      volume: price.volume
+    });
+
+    // Intraday bars only advance while the market is trading
+    if (!isMarketOpen(at)) return;
+
+    // Quotes carry cumulative day volume; each bar gets the increase since the previous quote
+    const previousVolume = this.lastDayVolume.get(key);
+    const volumeDelta = previousVolume !== undefined && price.volume >= previousVolume ? price.volume - previousVolume : 0;
+    this.lastDayVolume.set(key, price.volume);
+
+    for (const interval of Object.keys(INTRADAY_INTERVALS) as IntradayInterval[]) {
+      const bar = await this.updateLiveBar(price, interval, at, volumeDelta);
+      await storage.upsertPriceBar({
+        symbol: price.symbol,
+        exchange: price.exchange,
+        interval,
+        startTime: bar.startTime,
+        open: bar.open.toFixed(2),
+        high: bar.high.toFixed(2),
+        low: bar.low.toFixed(2),
+        close: bar.close.toFixed(2),
+        volume: bar.volume
+      });
+    }
+  }
+
+  private async updateLiveBar(price: StockPrice, interval: IntradayInterval, at: Date, volumeDelta: number): Promise<LiveBar> {
+    const key = `${price.symbol}-${price.exchange}-${interval}`;
+    const startTime = barStart(interval, at);
+    let bar = this.liveBars.get(key);
+
+    if (!bar || bar.startTime.getTime() !== startTime.getTime()) {
+      // Continue a bar already stored for this bucket, e.g. after a restart
+      const [stored] = await storage.getPriceBars(price.symbol, price.exchange, interval, startTime, startTime);
+      bar = stored
+        ? {
+            startTime,
+            open: parseFloat(stored.open),
+            high: parseFloat(stored.high),
+            low: parseFloat(stored.low),
+            close: parseFloat(stored.close),
+            volume: stored.volume
+          }
+        : { startTime, open: price.currentPrice, high: price.currentPrice, low: price.currentPrice, close: price.currentPrice, volume: 0 };
+      this.liveBars.set(key, bar);
+    }
+
+    bar.high = Math.max(bar.high, price.currentPrice);
+    bar.low = Math.min(bar.low, price.currentPrice);
+    bar.close = price.currentPrice;
+    bar.volume += volumeDelta;
+    return bar;
+  }
+
+  // Claim a backfill from `from`; false if one reaching back as far ran within the cooldown
+  claimBackfill(symbol: string, exchange: string, interval: CandleInterval, from: Date, now: number = Date.now()): boolean {
+    this.recentBackfills.forEach((recent, key) => {
+      if (now - recent.at >= BACKFILL_COOLDOWN_MS) this.recentBackfills.delete(key);
+    });
+
+    const key = `${symbol}-${exchange}-${interval}`;
+    const recent = this.recentBackfills.get(key);
+    if (recent && recent.from <= from) return false;
+
+    this.recentBackfills.set(key, { from, at: now });
+    return true;
+  }
+
+  // Store bars from a chart response, normalising their timestamps to our bar starts
+  async backfill(symbol: string, exchange: string, interval: CandleInterval, bars: ChartBar[]): Promise<number> {
+    for (const bar of bars) {
+      await storage.upsertPriceBar({
+        symbol,
+        exchange,
+        interval,
+        startTime: barStart(interval, bar.timestamp),
+        open: bar.open.toFixed(2),
+        high: bar.high.toFixed(2),
+        low: bar.low.toFixed(2),
+        close: bar.close.toFixed(2),
+        volume: Math.round(bar.volume)
+      });
+    }
+    return bars.length;
+  }
+}
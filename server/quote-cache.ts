@@ -0,0 +1,167 @@
+import type { StockPrice } from "@shared/schema";
+import type { Instrument, MarketDataProvider } from "./market-data";
+
+// Symbols come from request input, so the cache is capped as well as expired
+const MAX_ENTRIES = 10000;
+
+interface CacheEntry {
+  price: StockPrice;
+  fetchedAt: number;
+}
+
+export interface QuoteCacheMetrics {
+  hits: number;
+  misses: number;
+  coalesced: number; // lookups that joined a fetch already in flight
+  batchFetches: number;
+  errors: number;
+  size: number;
+  hitRate: number;
+}
+
+function instrumentKey(symbol: string, exchange: string): string {
+  return `${symbol}-${exchange}`;
+}
+
+// In-process quote cache in front of a market data provider.
+// Fresh entries are served from memory, concurrent misses for the same symbol share
+// one upstream request, and multi-symbol misses go out as a single batch when the provider supports it.
+export class QuoteCache {
+  private entries = new Map<string, CacheEntry>(); // oldest fetch first
+  private inFlight = new Map<string, Promise<StockPrice>>();
+  private counters = { hits: 0, misses: 0, coalesced: 0, batchFetches: 0, errors: 0 };
+
+  // `onQuote` sees every quote fetched from upstream, e.g. to record price history
+  constructor(
+    private provider: MarketDataProvider,
+    private ttlMs: number,
+    private onQuote?: (price: StockPrice) => void
+  ) {}
+
+  private fresh(key: string): StockPrice | undefined {
+    const entry = this.entries.get(key);
+    if (entry && Date.now() - entry.fetchedAt < this.ttlMs) {
+      return entry.price;
+    }
+    return undefined;
+  }
+
+  private store(key: string, price: StockPrice) {
+    const now = Date.now();
+    // Re-inserting keeps the map in fetch order, so expired entries are always at its front
+    this.entries.delete(key);
+    this.entries.set(key, { price, fetchedAt: now });
+    this.prune(now);
+    this.onQuote?.(price);
+  }
+
+  // Drop entries that can no longer be served, and the oldest ones beyond MAX_ENTRIES
+  private prune(now: number) {
+    while (this.entries.size > 0) {
+      const [key, entry] = this.entries.entries().next().value!;
+      if (now - entry.fetchedAt < this.ttlMs && this.entries.size <= MAX_ENTRIES) break;
+      this.entries.delete(key);
+    }
+  }
+
+  private track(key: string, request: Promise<StockPrice>): Promise<StockPrice> {
+    const tracked = request
+      .then(price => {
+        this.store(key, price);
+        return price;
+      })
+      .catch(error => {
+        this.counters.errors++;
+        throw error;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, tracked);
+    return tracked;
+  }
+
+  async get(symbol: string, exchange: string): Promise<StockPrice> {
+    const key = instrumentKey(symbol, exchange);
+
+    const cached = this.fresh(key);
+    if (cached) {
+      this.counters.hits++;
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+      return pending;
+    }
+
+    this.counters.misses++;
+    return this.track(key, this.provider.getPrice(symbol, exchange));
+  }
+
+  // Prices for several instruments keyed by "symbol-exchange"; instruments that fail are omitted
+  async getMany(instruments: Instrument[]): Promise<Map<string, StockPrice>> {
+    const unique = new Map<string, Instrument>();
+    instruments.forEach(instrument => unique.set(instrumentKey(instrument.symbol, instrument.exchange), instrument));
+
+    const requests = new Map<string, Promise<StockPrice>>();
+    const misses: Instrument[] = [];
+
+    unique.forEach((instrument, key) => {
+      const cached = this.fresh(key);
+      const pending = this.inFlight.get(key);
+      if (cached) {
+        this.counters.hits++;
+        requests.set(key, Promise.resolve(cached));
+      } else if (pending) {
+        this.counters.coalesced++;
+        requests.set(key, pending);
+      } else {
+        this.counters.misses++;
+        misses.push(instrument);
+      }
+    });
+
+    if (misses.length > 1 && this.provider.getPrices) {
+      this.counters.batchFetches++;
+      const batch = this.provider.getPrices(misses).catch(() => [] as StockPrice[]);
+
+      for (const instrument of misses) {
+        const key = instrumentKey(instrument.symbol, instrument.exchange);
+        // Anything the batch did not return falls back to a single lookup
+        const request = batch.then(prices => {
+          const price = prices.find(p => p.symbol === instrument.symbol && p.exchange === instrument.exchange);
+          return price || this.provider.getPrice(instrument.symbol, instrument.exchange);
+        });
+        requests.set(key, this.track(key, request));
+      }
+    } else {
+      for (const instrument of misses) {
+        const key = instrumentKey(instrument.symbol, instrument.exchange);
+        requests.set(key, this.track(key, this.provider.getPrice(instrument.symbol, instrument.exchange)));
+      }
+    }
+
+    const results = new Map<string, StockPrice>();
+    const keys = Array.from(requests.keys());
+    const settled = await Promise.allSettled(Array.from(requests.values()));
+    settled.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        results.set(keys[index], result.value);
+      }
+    });
+
+    return results;
+  }
+
+  getMetrics(): QuoteCacheMetrics {
+    const lookups = this.counters.hits + this.counters.misses + this.counters.coalesced;
+    return {
+      ...this.counters,
+      size: this.entries.size,
+      hitRate: lookups > 0 ? (this.counters.hits + this.counters.coalesced) / lookups : 0
+    };
+  }
+}
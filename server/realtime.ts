@@ -0,0 +1,208 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { tradingEvents } from "./events";
+import { hashSessionToken } from "./auth";
+import { BENCHMARK_INDICES, type Instrument } from "./market-data";
+import type { StockPrice } from "@shared/schema";
+
+const WS_PATH = "/ws";
+const TICK_INTERVAL_MS = parseInt(process.env.WS_TICK_INTERVAL_MS || "2000");
+const HEARTBEAT_INTERVAL_MS = 30000;
+// Every subscription costs an upstream quote per tick, so a connection gets a bounded number
+const MAX_SUBSCRIPTIONS = parseInt(process.env.WS_MAX_SUBSCRIPTIONS || "50");
+const EXCHANGES = ["NSE", "BSE"];
+
+interface Client {
+  socket: WebSocket;
+  userId: number | null; // null for anonymous clients, which can connect but not subscribe
+  subscriptions: Map<string, Instrument>; // key: symbol-exchange
+  alive: boolean;
+}
+
+type ClientMessage =
+  | { type: "subscribe"; instruments: Instrument[] }
+  | { type: "unsubscribe"; instruments: Instrument[] }
+  | { type: "ping" };
+
+function send(client: Client, message: unknown) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function parseInstruments(value: unknown): Instrument[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(item => item && typeof item.symbol === "string" && typeof item.exchange === "string")
+    .map(item => ({ symbol: item.symbol.toUpperCase(), exchange: item.exchange.toUpperCase() }))
+    .filter(instrument => EXCHANGES.includes(instrument.exchange));
+}
+
+// Only listed stocks and the benchmark indices can be subscribed to, so made-up symbols never reach a provider
+async function resolveInstruments(value: unknown): Promise<Instrument[]> {
+  const instruments = parseInstruments(value);
+  const known = await Promise.all(instruments.map(async instrument =>
+    BENCHMARK_INDICES[instrument.symbol]?.exchange === instrument.exchange ||
+    (await storage.getStock(instrument.symbol, instrument.exchange)) !== undefined
+  ));
+  return instruments.filter((_, index) => known[index]);
+}
+
+// Resolve the ?token= query parameter to a user id via the session store
+async function authenticate(req: IncomingMessage): Promise<number | null> {
+  const url = new URL(req.url || "", "http://localhost");
+  const token = url.searchParams.get("token");
+  if (!token) return null;
+
+  const session = await storage.getSession(hashSessionToken(token));
+  if (!session || session.expiresAt.getTime() <= Date.now()) return null;
+  return session.userId;
+}
+
+// WebSocket endpoint for price ticks and per-user order/position events.
+// Shares the HTTP server with Vite's HMR socket, so only upgrades on WS_PATH are handled here.
+export function setupRealtime(httpServer: Server, fetchPrices: (instruments: Instrument[]) => Promise<Map<string, StockPrice>>) {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<Client>();
+
+  httpServer.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || "", "http://localhost");
+    if (pathname !== WS_PATH) return;
+
+    try {
+      const userId = await authenticate(req);
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: Client = { socket: ws, userId, subscriptions: new Map(), alive: true };
+        clients.add(client);
+        onConnection(client);
+      });
+    } catch (error) {
+      console.error("WebSocket upgrade failed:", error);
+      socket.destroy();
+    }
+  });
+
+  function onConnection(client: Client) {
+    send(client, { type: "welcome", authenticated: client.userId !== null });
+
+    client.socket.on("pong", () => {
+      client.alive = true;
+    });
+
+    client.socket.on("message", (raw) => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return send(client, { type: "error", error: "Messages must be JSON" });
+      }
+
+      // Valid JSON can still be null, a number or an array; reading .type off those would throw in the listener
+      if (typeof message !== "object" || message === null || Array.isArray(message) || typeof message.type !== "string") {
+        return send(client, { type: "error", error: "Messages must be objects with a string type" });
+      }
+
+      switch (message.type) {
+        case "subscribe":
+          if (client.userId === null) {
+            return send(client, { type: "error", error: "Authentication required to subscribe" });
+          }
+          subscribe(client, message.instruments).catch(error => {
+            console.error("WebSocket subscribe failed:", error);
+            send(client, { type: "error", error: "Failed to subscribe" });
+          });
+          break;
+        case "unsubscribe":
+          for (const instrument of parseInstruments(message.instruments)) {
+            client.subscriptions.delete(`${instrument.symbol}-${instrument.exchange}`);
+          }
+          send(client, { type: "subscribed", instruments: Array.from(client.subscriptions.values()) });
+          break;
+        case "ping":
+          send(client, { type: "pong" });
+          break;
+        default:
+          send(client, { type: "error", error: "Unknown message type" });
+      }
+    });
+
+    client.socket.on("close", () => {
+      clients.delete(client);
+    });
+  }
+
+  async function subscribe(client: Client, value: unknown) {
+    const limitError = { type: "error", error: `At most ${MAX_SUBSCRIPTIONS} subscriptions per connection` };
+    if (Array.isArray(value) && value.length > MAX_SUBSCRIPTIONS) {
+      return send(client, limitError);
+    }
+
+    for (const instrument of await resolveInstruments(value)) {
+      const key = `${instrument.symbol}-${instrument.exchange}`;
+      if (!client.subscriptions.has(key) && client.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+        send(client, limitError);
+        break;
+      }
+      client.subscriptions.set(key, instrument);
+    }
+    send(client, { type: "subscribed", instruments: Array.from(client.subscriptions.values()) });
+  }
+
+  // Push ticks for every symbol that at least one client is subscribed to
+  let ticking = false;
+  const tickTimer = setInterval(async () => {
+    if (ticking || clients.size === 0) return;
+    ticking = true;
+
+    try {
+      const instruments = new Map<string, Instrument>();
+      clients.forEach(client => client.subscriptions.forEach((instrument, key) => instruments.set(key, instrument)));
+      if (instruments.size === 0) return;
+
+      const prices = await fetchPrices(Array.from(instruments.values()));
+      clients.forEach(client => {
+        client.subscriptions.forEach((_, key) => {
+          const price = prices.get(key);
+          if (price) {
+            send(client, { type: "tick", data: price });
+          }
+        });
+      });
+    } catch (error) {
+      console.error("Failed to push price ticks:", error);
+    } finally {
+      ticking = false;
+    }
+  }, TICK_INTERVAL_MS);
+
+  // Drop connections that stopped answering pings
+  const heartbeatTimer = setInterval(() => {
+    clients.forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Forward order and position events to the owning user's connections
+  const unsubscribe = tradingEvents.subscribe(event => {
+    clients.forEach(client => {
+      if (client.userId === event.userId) {
+        send(client, { type: "event", event });
+      }
+    });
+  });
+
+  httpServer.on("close", () => {
+    clearInterval(tickTimer);
+    clearInterval(heartbeatTimer);
+    unsubscribe();
+    wss.close();
+  });
+}
@@ -0,0 +1,173 @@
+import { storage } from "./storage";
+import { chargesEngine } from "./charges";
+import { chargeSegment, marginRequired } from "./margin";
+import type { Order } from "@shared/schema";
+
+export type RiskErrorCode =
+  | "ACCOUNT_NOT_FOUND"
+  | "INVALID_QUANTITY"
+  | "INSUFFICIENT_FUNDS"
+  | "INSUFFICIENT_HOLDINGS";
+
+export interface RiskRejection {
+  code: RiskErrorCode;
+  message: string;
+  details?: Record<string, number>;
+}
+
+export interface OrderRiskRequest {
+  orderType: string;
+  symbol: string;
+  exchange: string;
+  product: string;
+  quantity: number;
+  price: number; // worst-case fill price used to size the cash requirement
+  replacesOrderId?: number; // a pending order being modified, whose current reservation is released
+}
+
+export interface Reservations {
+  reservedCash: number;
+  reservedQuantity: Map<string, number>; // key: symbol-exchange-product
+  // Signed position left for new orders to close once pending orders have closed theirs
+  closableQuantity: Map<string, number>; // key: symbol-exchange-product
+}
+
+// Price a pending BUY is sized at: its limit, else its trigger, else the last traded price
+export function reservationPrice(order: { limitPrice?: string | null; triggerPrice?: string | null }, lastPrice: number): number {
+  if (order.limitPrice) return parseFloat(order.limitPrice);
+  if (order.triggerPrice) return parseFloat(order.triggerPrice);
+  return lastPrice;
+}
+
+// Cash an order needs: the value of the shares it opens (only the margin for MIS)
+// plus the charges the fill will incur. Shares that close a position need no margin.
+export function requiredCash(
+  order: { orderType: string; quantity: number; exchange: string; product: string },
+  price: number,
+  openingQuantity: number = order.quantity
+): number {
+  const segment = chargeSegment(order.product);
+  const charges = chargesEngine.calculate({ side: order.orderType, quantity: order.quantity, price, exchange: order.exchange, segment });
+  return marginRequired(order.product, openingQuantity * price) + charges.totalCharges;
+}
+
+// Reservations are derived from the pending orders themselves, so cancelling,
+// filling or expiring an order releases what it held without extra bookkeeping.
+export function computeReservations(
+  activeOrders: Order[],
+  lastPrices: Map<string, number> = new Map(),
+  heldQuantity: Map<string, number> = new Map() // signed position per symbol-exchange-product
+): Reservations {
+  let reservedCash = 0;
+  const reservedQuantity = new Map<string, number>();
+  const closableQuantity = new Map(heldQuantity);
+  const bracketGroups = new Set<number>();
+
+  for (const activeOrder of activeOrders) {
+    // Only the unfilled part of a partially filled order is still outstanding
+    const order = { ...activeOrder, quantity: activeOrder.quantity - activeOrder.filledQuantity };
+    const key = `${order.symbol}-${order.exchange}-${order.product}`;
+    const price = reservationPrice(order, lastPrices.get(`${order.symbol}-${order.exchange}`) || 0);
+    const closable = closableQuantity.get(key) || 0;
+
+    if (order.orderType === "BUY") {
+      // A BUY against a short covers it first
+      const covering = Math.min(Math.max(0, -closable), order.quantity);
+      closableQuantity.set(key, closable + covering);
+      reservedCash += requiredCash(order, price, order.quantity - covering);
+    } else if (order.orderType === "SELL") {
+      // Exit legs of one bracket are one-cancels-other, so they hold the shares once
+      if (order.parentOrderId) {
+        if (bracketGroups.has(order.parentOrderId)) continue;
+        bracketGroups.add(order.parentOrderId);
+      }
+
+      reservedQuantity.set(key, (reservedQuantity.get(key) || 0) + order.quantity);
+
+      // Whatever an MIS SELL does not close is a short sale and blocks margin
+      const selling = Math.min(Math.max(0, closable), order.quantity);
+      closableQuantity.set(key, closable - selling);
+      if (order.product === "MIS" && selling < order.quantity) {
+        reservedCash += requiredCash(order, price, order.quantity - selling);
+      }
+    }
+  }
+
+  return { reservedCash, reservedQuantity, closableQuantity };
+}
+
+export async function getReservations(userId: number, excludeOrderId?: number): Promise<Reservations> {
+  const activeOrders = (await storage.getActiveOrders(userId)).filter(order => order.id !== excludeOrderId);
+
+  // Pending market orders have no price of their own
+  const lastPrices = new Map<string, number>();
+  for (const order of activeOrders) {
+    const key = `${order.symbol}-${order.exchange}`;
+    if (order.priceType === "MARKET" && !lastPrices.has(key)) {
+      const stock = await storage.getStock(order.symbol, order.exchange);
+      lastPrices.set(key, stock ? parseFloat(stock.currentPrice) : 0);
+    }
+  }
+
+  const heldQuantity = new Map<string, number>();
+  for (const position of await storage.getUserPositions(userId)) {
+    heldQuantity.set(`${position.symbol}-${position.exchange}-${position.product}`, position.quantity);
+  }
+
+  return computeReservations(activeOrders, lastPrices, heldQuantity);
+}
+
+// Check that a new order is covered by free cash (BUY, MIS short sale) or free holdings (CNC SELL)
+export async function checkOrderRisk(userId: number, request: OrderRiskRequest): Promise<RiskRejection | undefined> {
+  if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+    return { code: "INVALID_QUANTITY", message: "Quantity must be a positive whole number" };
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { code: "ACCOUNT_NOT_FOUND", message: "Account not found" };
+  }
+
+  const { reservedCash, reservedQuantity, closableQuantity } = await getReservations(userId, request.replacesOrderId);
+  const key = `${request.symbol}-${request.exchange}-${request.product}`;
+  const closable = closableQuantity.get(key) || 0;
+  const available = parseFloat(user.balance) - reservedCash;
+
+  if (request.orderType === "BUY") {
+    const covering = Math.min(Math.max(0, -closable), request.quantity);
+    const required = requiredCash(request, request.price, request.quantity - covering);
+    if (required > available) {
+      return {
+        code: "INSUFFICIENT_FUNDS",
+        message: "Insufficient buying power for this order",
+        details: { required, available, reserved: reservedCash }
+      };
+    }
+  } else if (request.orderType === "SELL" && request.product === "MIS") {
+    const shortQuantity = request.quantity - Math.min(Math.max(0, closable), request.quantity);
+    if (shortQuantity > 0) {
+      const required = requiredCash(request, request.price, shortQuantity);
+      if (required > available) {
+        return {
+          code: "INSUFFICIENT_FUNDS",
+          message: "Insufficient margin for this short sale",
+          details: { required, available, reserved: reservedCash, shortQuantity }
+        };
+      }
+    }
+  } else if (request.orderType === "SELL") {
+    const position = await storage.getPosition(userId, request.symbol, request.exchange, request.product);
+    const held = position ? position.quantity : 0;
+    const reserved = reservedQuantity.get(key) || 0;
+    const free = held - reserved;
+    if (request.quantity > free) {
+      return {
+        code: "INSUFFICIENT_HOLDINGS",
+        message: "Insufficient holdings for this order",
+        details: { required: request.quantity, available: free, reserved }
+      };
+    }
+  }
+
+  return undefined;
+}
@@ -1,10 +1,26 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertOrderSchema, insertStockSchema, stockPriceSchema } from "@shared/schema";
+import { placeOrderSchema, modifyOrderSchema, watchlistNameSchema, watchlistItemSchema, reorderSchema, insertPriceAlertSchema, updatePriceAlertSchema, insertWebhookSchema, updateWebhookSchema, webhookDeliveriesQuerySchema, insertStockSchema, stockPriceSchema, candleQuerySchema, chargesEstimateSchema, portfolioHistoryQuerySchema, analyticsQuerySchema, exportQuerySchema, type Order, type OrderFieldChanges, type CancellationReason, type PortfolioSummary, type Stock, type StockPrice, type User, type PortfolioHistoryPoint, type PortfolioAnalytics, type BenchmarkComparison, type Watchlist, type PriceAlert, type Webhook } from "@shared/schema";
 import { z } from "zod";
 import { AngelOneAPI, STOCK_TOKENS } from "./angelone-api";
 import { YahooFinanceAPI } from "./yahoo-finance-api";
+import { createMarketDataProvider, SimulatedMarketDataProvider, BENCHMARK_INDICES, type Instrument } from "./market-data";
+import { QuoteCache } from "./quote-cache";
+import { tradingEvents } from "./events";
+import { setupRealtime } from "./realtime";
+import { setupWebhooks, sendWebhookEvent, generateWebhookSecret, webhookUrlError } from "./webhooks";
+import { PriceHistoryRecorder, DEFAULT_CANDLE_LOOKBACK_MS, firstBarStart, toCandle } from "./price-history";
+import { setupAuth, requireAuth } from "./auth";
+import { checkOrderRisk, getReservations, reservationPrice } from "./risk";
+import { chargesEngine } from "./charges";
+import { nextSessionClose, getMarketStatus, isMarketOpen, isSquareOffWindow, isAfterSessionClose, istDate, tradingDatesBetween } from "./trading-calendar";
+import { marginRequired } from "./margin";
+import { fillSimulator, touchPrice } from "./fill-simulator";
+import { evaluateAlert } from "./alerts";
+import { valueTradesDaily, xirr, maxDrawdown, annualizedVolatility, sharpeRatio, sortinoRatio, closedTradeStats, benchmarkStats, RISK_FREE_RATE, type CashFlow } from "./analytics";
+import { toCsv, toXlsx, exportFilename, tradesSheet, ordersSheet, statementSheets, statementCsvSheet, EXPORT_CONTENT_TYPES, type ExportFormat, type Sheet } from "./exports";
+import type { PriceAlertUpdate } from "./storage";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const ANGELONE_API_KEY = process.env.ANGELONE_API_KEY || "";
@@ -23,30 +39,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize Yahoo Finance API
   const yahooAPI = new YahooFinanceAPI();
 
-  // Real market data integration with Yahoo Finance
+  // Market data providers in priority order, e.g. MARKET_DATA_PROVIDERS=yahoo,angelone.
+  // "simulated" serves deterministic offline prices.
+  const marketData = createMarketDataProvider(
+    {
+      yahoo: yahooAPI,
+      angelone: angelOneAPI,
+      simulated: new SimulatedMarketDataProvider()
+    },
+    process.env.MARKET_DATA_PROVIDERS || "yahoo,angelone"
+  );
+
+  // Every quote fetched upstream is also recorded as OHLC price history
+  const priceHistory = new PriceHistoryRecorder();
+
+  // All price lookups go through a short-lived cache in front of the providers
+  const quoteCache = new QuoteCache(
+    marketData,
+    parseInt(process.env.QUOTE_CACHE_TTL_MS || "3000"),
+    (price) => {
+      priceHistory.recordQuote(price).catch(error => {
+        console.error(`Failed to record price history for ${price.symbol}:`, error);
+      });
+    }
+  );
+
+  // Live market data with automatic failover between providers
   async function fetchStockPrice(symbol: string, exchange: string) {
     try {
-      // Get live data from Yahoo Finance API
-      const quote = await yahooAPI.getQuote(symbol, exchange);
-      
-      return {
-        symbol,
-        exchange,
-        currentPrice: quote.regularMarketPrice,
-        change: quote.regularMarketChange,
-        changePercent: quote.regularMarketChangePercent,
-        dayHigh: quote.regularMarketDayHigh,
-        dayLow: quote.regularMarketDayLow,
-        dayOpen: quote.regularMarketOpen,
-        previousClose: quote.regularMarketPreviousClose,
-        volume: quote.regularMarketVolume
-      };
+      return await quoteCache.get(symbol, exchange);
     } catch (error: any) {
-      console.error(`Yahoo Finance API error for ${symbol}:`, error.message);
+      console.error(`Market data error for ${symbol}:`, error.message);
       throw new Error(`Failed to fetch live price for ${symbol}: ${error.message}`);
     }
   }
 
+  // Batched lookup keyed by "symbol-exchange"; symbols that could not be priced are missing from the map
+  async function fetchStockPrices(instruments: Instrument[]) {
+    return await quoteCache.getMany(instruments);
+  }
+
+  // Quote built from the last stored prices, for when live data is unavailable
+  function storedQuote(stock: Stock): StockPrice {
+    const currentPrice = parseFloat(stock.currentPrice);
+    const previousClose = parseFloat(stock.previousClose);
+    return {
+      symbol: stock.symbol,
+      exchange: stock.exchange,
+      currentPrice,
+      change: currentPrice - previousClose,
+      changePercent: previousClose ? ((currentPrice - previousClose) / previousClose) * 100 : 0,
+      dayHigh: parseFloat(stock.dayHigh),
+      dayLow: parseFloat(stock.dayLow),
+      dayOpen: parseFloat(stock.dayOpen),
+      previousClose,
+      volume: stock.volume
+    };
+  }
+
+  // Live quote for a stock, falling back to its last stored prices
+  async function quoteFor(stock: Stock): Promise<StockPrice> {
+    try {
+      return await fetchStockPrice(stock.symbol, stock.exchange);
+    } catch (error) {
+      console.warn(`Using stored price for ${stock.symbol}:`, error);
+      return storedQuote(stock);
+    }
+  }
+
+  // User accounts and sessions
+  setupAuth(app);
+
   // Angel One authentication endpoint
   app.post("/api/auth/angelone/login", async (req, res) => {
     try {
@@ -79,6 +142,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Quote cache hit/miss counters
+  app.get("/api/market-data/metrics", async (req, res) => {
+    res.json({
+      providers: marketData.getProviderNames(),
+      cache: quoteCache.getMetrics()
+    });
+  });
+
+  // Current trading session state
+  app.get("/api/market/status", async (req, res) => {
+    res.json(getMarketStatus());
+  });
+
+  // Estimate brokerage and statutory charges for a prospective order
+  app.post("/api/charges/estimate", async (req, res) => {
+    try {
+      const request = chargesEstimateSchema.parse(req.body);
+
+      let price = request.price;
+      if (price === undefined) {
+        try {
+          price = (await fetchStockPrice(request.symbol!, request.exchange)).currentPrice;
+        } catch (error) {
+          return res.status(404).json({ error: "Price not available for symbol" });
+        }
+      }
+
+      res.json(chargesEngine.calculate({
+        side: request.orderType,
+        quantity: request.quantity,
+        price,
+        exchange: request.exchange,
+        segment: request.segment
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid charges request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to estimate charges" });
+    }
+  });
+
   // Get all stocks
   app.get("/api/stocks", async (req, res) => {
     try {
@@ -148,11 +253,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Historical OHLC candles, backfilled from the market data providers when what is stored does not reach back to `from`
+  app.get("/api/stocks/:symbol/:exchange/candles", async (req, res) => {
+    try {
+      const { symbol, exchange } = req.params;
+      const { interval, from: fromParam, to: toParam, backfill } = candleQuerySchema.parse(req.query);
+      const to = toParam || new Date();
+      const from = fromParam || new Date(to.getTime() - DEFAULT_CANDLE_LOOKBACK_MS[interval]);
+
+      if (from > to) {
+        return res.status(400).json({ error: "'from' must be before 'to'" });
+      }
+
+      let bars = await storage.getPriceBars(symbol, exchange, interval, from, to);
+
+      // The live recorder only stores bars from when it started, so a few recent bars are not a history
+      const covered = bars.length > 0 && bars[0].startTime <= firstBarStart(interval, from);
+      if ((!covered || backfill === "true") && priceHistory.claimBackfill(symbol, exchange, interval, from)) {
+        try {
+          const chartBars = await marketData.getChart(symbol, exchange, interval, from, to);
+          await priceHistory.backfill(symbol, exchange, interval, chartBars);
+          bars = await storage.getPriceBars(symbol, exchange, interval, from, to);
+        } catch (error: any) {
+          console.error(`Candle backfill failed for ${symbol}:`, error.message);
+        }
+      }
+
+      res.json(bars.map(toCandle));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid candle query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch candles" });
+    }
+  });
+
   // Place order
-  app.post("/api/orders", async (req, res) => {
+  app.post("/api/orders", requireAuth, async (req, res) => {
     try {
-      const orderData = insertOrderSchema.parse(req.body);
-      const userId = 1; // Demo user ID
+      const orderData = placeOrderSchema.parse(req.body);
+      const userId = req.user!.id;
 
       // Validate stock exists
       const stock = await storage.getStock(orderData.symbol, orderData.exchange);
@@ -160,25 +300,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Stock not found" });
       }
 
-      // Create order
-      const order = await storage.createOrder({ ...orderData, userId });
+      const quote = await quoteFor(stock);
 
-      // Check if order should be executed immediately (market order or limit price met)
-      const currentPrice = parseFloat(stock.currentPrice);
-      const limitPrice = parseFloat(orderData.limitPrice);
-      
-      let shouldExecute = false;
-      if (orderData.orderType === "BUY" && currentPrice <= limitPrice) {
-        shouldExecute = true;
-      } else if (orderData.orderType === "SELL" && currentPrice >= limitPrice) {
-        shouldExecute = true;
+      // Intraday positions are being closed out, so no new ones can be opened
+      if (orderData.product === "MIS" && isSquareOffWindow()) {
+        return res.status(400).json({ error: "MIS orders are not accepted after the intraday square-off time", code: "MIS_CUTOFF" });
+      }
+
+      // Orders placed outside the trading session queue as after-market orders
+      const amo = !isMarketOpen();
+      if (amo && orderData.validity === "IOC") {
+        return res.status(400).json({ error: "IOC orders can only be placed while the market is open", code: "MARKET_CLOSED" });
+      }
+
+      // Create the order unless free cash or holdings do not cover it; DAY orders lapse at the session close
+      const placement = await storage.createOrderIfAllowed({
+        ...orderData,
+        userId,
+        amo,
+        expiresAt: orderData.validity === "DAY" ? nextSessionClose() : orderData.expiresAt
+      }, () => checkOrderRisk(userId, {
+        orderType: orderData.orderType,
+        symbol: orderData.symbol,
+        exchange: orderData.exchange,
+        product: orderData.product,
+        quantity: orderData.quantity,
+        price: reservationPrice(orderData, quote.currentPrice)
+      }));
+      if ("rejection" in placement) {
+        const { rejection } = placement;
+        return res.status(400).json({ error: rejection.message, code: rejection.code, details: rejection.details });
       }
+      const { order } = placement;
 
-      if (shouldExecute) {
-        await executeOrder(order.id, currentPrice);
+      tradingEvents.publish({ type: "order.placed", userId, order });
+
+      // Execute immediately if it is a market order or its trigger/limit is already met
+      if (!amo) {
+        await processOrder(order, quote);
+      }
+
+      // executeOrder cancels the remainder of an IOC order it fills; one that was not
+      // marketable never got there and is cancelled here
+      if (order.validity === "IOC") {
+        const placedOrder = await storage.getOrder(order.id);
+        if (placedOrder && (placedOrder.status === "PENDING" || placedOrder.status === "PARTIALLY_FILLED")) {
+          await cancelOrderAndPublish(order.id, "IOC_UNFILLED");
+        }
       }
 
-      res.json(order);
+      res.json(await storage.getOrder(order.id) || order);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid order data", details: error.errors });
@@ -187,95 +358,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Execute order function
-  async function executeOrder(orderId: number, executionPrice: number) {
-    try {
-      const order = await storage.getOrder(orderId);
-      if (!order || order.status !== "PENDING") return;
+  // Stop orders trigger once the price crosses the trigger: upwards for BUY, downwards for SELL
+  function isStopTriggered(order: Order, currentPrice: number): boolean {
+    const triggerPrice = parseFloat(order.triggerPrice!);
+    return order.orderType === "BUY" ? currentPrice >= triggerPrice : currentPrice <= triggerPrice;
+  }
+
+  // Limit orders fill when the touch price (ask for BUY, bid for SELL) is at the limit or better
+  function isLimitMarketable(order: Order, quote: StockPrice): boolean {
+    const limitPrice = parseFloat(order.limitPrice!);
+    const price = touchPrice(order, quote);
+    return order.orderType === "BUY" ? price <= limitPrice : price >= limitPrice;
+  }
 
-      // Update order status
-      await storage.updateOrderStatus(orderId, "EXECUTED", executionPrice);
+  // Run an active order's trigger and price checks against the current quote.
+  // Stops trigger on the last traded price.
+  async function processOrder(order: Order, quote: StockPrice) {
+    switch (order.priceType) {
+      case "MARKET":
+        await executeOrder(order, quote);
+        return;
 
-      // Create trade record
-      const totalValue = order.quantity * executionPrice;
-      await storage.createTrade({
-        orderId: order.id,
-        symbol: order.symbol,
-        exchange: order.exchange,
-        tradeType: order.orderType,
-        quantity: order.quantity,
-        price: executionPrice.toFixed(2),
-        totalValue: totalValue.toFixed(2),
-        userId: order.userId
-      });
+      case "STOP":
+        // SL-M: becomes a market order once triggered
+        if (isStopTriggered(order, quote.currentPrice)) {
+          await executeOrder(order, quote);
+        }
+        return;
 
-      // Update position
-      const existingPosition = await storage.getPosition(order.userId, order.symbol, order.exchange);
-      
-      if (order.orderType === "BUY") {
-        if (existingPosition) {
-          // Update existing position
-          const newQuantity = existingPosition.quantity + order.quantity;
-          const newAveragePrice = (
-            (existingPosition.quantity * parseFloat(existingPosition.averagePrice)) + 
-            (order.quantity * executionPrice)
-          ) / newQuantity;
-          
-          await storage.updatePosition(existingPosition.id, newQuantity, newAveragePrice);
-        } else {
-          // Create new position
-          await storage.createPosition({
-            symbol: order.symbol,
-            exchange: order.exchange,
-            quantity: order.quantity,
-            averagePrice: executionPrice.toFixed(2),
-            userId: order.userId
-          });
+      case "STOP_LIMIT": {
+        // SL: becomes a resting limit order once triggered
+        let liveOrder: Order | undefined = order;
+        if (!order.triggeredAt) {
+          if (!isStopTriggered(order, quote.currentPrice)) return;
+          liveOrder = await storage.markOrderTriggered(order.id);
+          if (!liveOrder) return;
+        }
+        if (isLimitMarketable(liveOrder, quote)) {
+          await executeOrder(liveOrder, quote);
         }
+        return;
+      }
 
-        // Deduct cash from user balance
-        const user = await storage.getUser(order.userId);
-        if (user) {
-          const newBalance = parseFloat(user.balance) - totalValue;
-          await storage.updateUserBalance(order.userId, newBalance);
+      default:
+        if (isLimitMarketable(order, quote)) {
+          await executeOrder(order, quote);
         }
-      } else if (order.orderType === "SELL" && existingPosition) {
-        // Handle sell order
-        const newQuantity = existingPosition.quantity - order.quantity;
-        
-        if (newQuantity <= 0) {
-          await storage.deletePosition(existingPosition.id);
-        } else {
-          await storage.updatePosition(existingPosition.id, newQuantity, parseFloat(existingPosition.averagePrice));
+    }
+  }
+
+  // Fill the next tranche of an order, sized and priced by the fill simulator
+  async function executeOrder(activeOrder: Order, quote: StockPrice) {
+    try {
+      const tranche = fillSimulator.simulate(activeOrder, quote);
+      if (!tranche) {
+        // An IOC order with nothing to fill against lapses rather than waiting for the next check
+        if (activeOrder.validity === "IOC") {
+          await cancelOrderAndPublish(activeOrder.id, "IOC_UNFILLED");
         }
+        return;
+      }
 
-        // Add cash to user balance
-        const user = await storage.getUser(order.userId);
-        if (user) {
-          const newBalance = parseFloat(user.balance) + totalValue;
-          await storage.updateUserBalance(order.userId, newBalance);
+      // Fill, trade, position, balance, OCO cancellation, an IOC remainder's cancellation and
+      // bracket legs are applied atomically
+      const execution = await storage.executeOrder(activeOrder.id, tranche.price, tranche.quantity);
+      if (!execution) {
+        const order = await storage.getOrder(activeOrder.id);
+        if (order && order.status === "REJECTED") {
+          tradingEvents.publish({ type: "order.rejected", userId: order.userId, order });
         }
+        return;
+      }
+
+      const { order, trade, cancelledOrders, legs } = execution;
+      fillSimulator.consume(quote, trade.quantity);
+      tradingEvents.publish({ type: "order.filled", userId: order.userId, order, trade });
+      if (order.status === "CANCELLED") {
+        tradingEvents.publish({ type: "order.cancelled", userId: order.userId, order });
+      }
+      for (const cancelled of cancelledOrders) {
+        tradingEvents.publish({ type: "order.cancelled", userId: cancelled.userId, order: cancelled });
+      }
+
+      const position = await storage.getPosition(order.userId, order.symbol, order.exchange, order.product);
+      tradingEvents.publish({
+        type: "position.updated",
+        userId: order.userId,
+        symbol: order.symbol,
+        exchange: order.exchange,
+        product: order.product,
+        position: position || null
+      });
+
+      // Exit legs protect the whole entry, so storage creates them with its last tranche
+      for (const leg of legs) {
+        tradingEvents.publish({ type: "order.placed", userId: leg.userId, order: leg });
       }
     } catch (error) {
       console.error("Failed to execute order:", error);
     }
   }
 
+  // Cancel an order that can still fill and notify subscribers; undefined if it was already final
+  async function cancelOrderAndPublish(orderId: number, reason: CancellationReason) {
+    const cancellation = await storage.cancelOrder(orderId, reason);
+    if (!cancellation) return undefined;
+
+    const { order, legs } = cancellation;
+    tradingEvents.publish({ type: "order.cancelled", userId: order.userId, order });
+    for (const leg of legs) {
+      tradingEvents.publish({ type: "order.placed", userId: leg.userId, order: leg });
+    }
+    return order;
+  }
+
+  // Route ids must be positive integers; anything else is a bad request rather than NaN
+  function parseId(value: string): number | undefined {
+    return /^\d+$/.test(value) ? parseInt(value, 10) : undefined;
+  }
+
   // Get user orders
-  app.get("/api/orders", async (req, res) => {
+  app.get("/api/orders", requireAuth, async (req, res) => {
     try {
-      const userId = 1; // Demo user ID
+      const userId = req.user!.id;
       const orders = await storage.getUserOrders(userId);
-      res.json(orders);
+
+      // Expose bracket links in both directions
+      const enrichedOrders = orders.map(order => ({
+        ...order,
+        childOrderIds: orders
+          .filter(child => child.parentOrderId === order.id)
+          .map(child => child.id)
+      }));
+
+      res.json(enrichedOrders);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch orders" });
     }
   });
 
   // Get active orders
-  app.get("/api/orders/active", async (req, res) => {
+  app.get("/api/orders/active", requireAuth, async (req, res) => {
     try {
-      const userId = 1; // Demo user ID
+      const userId = req.user!.id;
       const orders = await storage.getActiveOrders(userId);
       res.json(orders);
     } catch (error) {
@@ -283,51 +508,205 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Cancel order
-  app.delete("/api/orders/:id", async (req, res) => {
+  // Modify a pending order's quantity, prices or bracket settings
+  app.patch("/api/orders/:id", requireAuth, async (req, res) => {
     try {
-      const orderId = parseInt(req.params.id);
-      await storage.cancelOrder(orderId);
-      res.json({ success: true });
+      const orderId = parseId(req.params.id);
+      if (orderId === undefined) {
+        return res.status(400).json({ error: "Invalid order id" });
+      }
+      const updates = modifyOrderSchema.parse(req.body);
+      const userId = req.user!.id;
+
+      const order = await storage.getOrder(orderId);
+      if (!order || order.userId !== userId) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.status !== "PENDING") {
+        return res.status(409).json({ error: `Cannot modify a ${order.status} order`, code: "ORDER_NOT_MODIFIABLE" });
+      }
+
+      // Prices are stored with two decimals, so "100" and "100.00" are the same value
+      const normalized = { ...updates };
+      for (const field of ["limitPrice", "triggerPrice", "takeProfitValue", "stopLossValue"] as const) {
+        const value = normalized[field];
+        if (value) normalized[field] = parseFloat(value).toFixed(2);
+      }
+
+      const changes: OrderFieldChanges = {};
+      for (const [field, value] of Object.entries(normalized)) {
+        const from = order[field as keyof typeof normalized] ?? null;
+        const to = value ?? null;
+        if (from !== to) changes[field] = { from, to };
+      }
+      if (Object.keys(changes).length === 0) {
+        return res.json(order);
+      }
+
+      // Validate the order as it will look after the edit
+      const modified = { ...order, ...normalized };
+      const validation = placeOrderSchema.safeParse({
+        symbol: modified.symbol,
+        exchange: modified.exchange,
+        orderType: modified.orderType,
+        product: modified.product,
+        priceType: modified.priceType,
+        quantity: modified.quantity,
+        limitPrice: modified.limitPrice,
+        triggerPrice: modified.triggerPrice,
+        takeProfitType: modified.takeProfitType,
+        takeProfitValue: modified.takeProfitValue,
+        stopLossType: modified.stopLossType,
+        stopLossValue: modified.stopLossValue,
+        validity: modified.validity,
+        expiresAt: modified.validity === "GTC" ? modified.expiresAt : undefined
+      });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid order data", details: validation.error.errors });
+      }
+
+      const stock = await storage.getStock(order.symbol, order.exchange);
+      if (!stock) {
+        return res.status(400).json({ error: "Stock not found" });
+      }
+      const quote = await quoteFor(stock);
+
+      // The order's current reservation is released in favour of the modified one
+      const modification = await storage.modifyOrderIfAllowed(order.id, normalized, changes, () => checkOrderRisk(userId, {
+        orderType: modified.orderType,
+        symbol: modified.symbol,
+        exchange: modified.exchange,
+        product: modified.product,
+        quantity: modified.quantity,
+        price: reservationPrice(modified, quote.currentPrice),
+        replacesOrderId: order.id
+      }));
+      if (!modification) {
+        return res.status(409).json({ error: "Order is no longer pending", code: "ORDER_NOT_MODIFIABLE" });
+      }
+      if ("rejection" in modification) {
+        const { rejection } = modification;
+        return res.status(400).json({ error: rejection.message, code: rejection.code, details: rejection.details });
+      }
+      const updatedOrder = modification.order;
+      tradingEvents.publish({ type: "order.modified", userId, order: updatedOrder, changes });
+
+      // The new prices may make the order marketable straight away
+      if (isMarketOpen()) {
+        await processOrder(updatedOrder, quote);
+      }
+
+      res.json(await storage.getOrder(order.id) || updatedOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid order modification", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to modify order" });
+    }
+  });
+
+  // Audit trail of an order's modifications, oldest first
+  app.get("/api/orders/:id/modifications", requireAuth, async (req, res) => {
+    try {
+      const orderId = parseId(req.params.id);
+      if (orderId === undefined) {
+        return res.status(400).json({ error: "Invalid order id" });
+      }
+
+      const order = await storage.getOrder(orderId);
+      if (!order || order.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      res.json(await storage.getOrderModifications(order.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch order modifications" });
+    }
+  });
+
+  // Cancel all of the user's open orders, optionally only those for ?symbol= (and ?exchange=)
+  app.delete("/api/orders", requireAuth, async (req, res) => {
+    try {
+      const { symbol, exchange } = req.query;
+      const openOrders = (await storage.getActiveOrders(req.user!.id)).filter(order =>
+        (typeof symbol !== "string" || order.symbol === symbol.toUpperCase()) &&
+        (typeof exchange !== "string" || order.exchange === exchange.toUpperCase())
+      );
+
+      const cancelled: Order[] = [];
+      for (const order of openOrders) {
+        const cancelledOrder = await cancelOrderAndPublish(order.id, "USER_CANCELLED");
+        if (cancelledOrder) cancelled.push(cancelledOrder);
+      }
+
+      res.json({ cancelled, count: cancelled.length });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel orders" });
+    }
+  });
+
+  // Cancel order; only PENDING and PARTIALLY_FILLED orders can be cancelled
+  app.delete("/api/orders/:id", requireAuth, async (req, res) => {
+    try {
+      const orderId = parseId(req.params.id);
+      if (orderId === undefined) {
+        return res.status(400).json({ error: "Invalid order id" });
+      }
+
+      const order = await storage.getOrder(orderId);
+      if (!order || order.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.status !== "PENDING" && order.status !== "PARTIALLY_FILLED") {
+        return res.status(409).json({ error: `Cannot cancel a ${order.status} order`, code: "ORDER_NOT_CANCELLABLE" });
+      }
+
+      // The transition is conditional, so a fill that lands first wins
+      const cancelled = await cancelOrderAndPublish(orderId, "USER_CANCELLED");
+      if (!cancelled) {
+        const current = await storage.getOrder(orderId);
+        return res.status(409).json({ error: `Cannot cancel a ${current?.status} order`, code: "ORDER_NOT_CANCELLABLE" });
+      }
+
+      res.json({ success: true, order: cancelled });
     } catch (error) {
       res.status(500).json({ error: "Failed to cancel order" });
     }
   });
 
   // Get user positions
-  app.get("/api/positions", async (req, res) => {
+  app.get("/api/positions", requireAuth, async (req, res) => {
     try {
-      const userId = 1; // Demo user ID
+      const userId = req.user!.id;
       const positions = await storage.getUserPositions(userId);
       
       // Calculate current values and P&L
-      const enrichedPositions = await Promise.all(
-        positions.map(async (position) => {
-          try {
-            const priceData = await fetchStockPrice(position.symbol, position.exchange);
-            const currentValue = position.quantity * priceData.currentPrice;
-            const investment = position.quantity * parseFloat(position.averagePrice);
-            const unrealizedPnL = currentValue - investment;
-            const unrealizedPnLPercent = (unrealizedPnL / investment) * 100;
+      const prices = await fetchStockPrices(positions);
+      const enrichedPositions = positions.map(position => {
+        const priceData = prices.get(`${position.symbol}-${position.exchange}`);
+        if (priceData) {
+          const currentValue = position.quantity * priceData.currentPrice;
+          const investment = position.quantity * parseFloat(position.averagePrice);
+          const unrealizedPnL = currentValue - investment;
+          const unrealizedPnLPercent = (unrealizedPnL / Math.abs(investment)) * 100; // shorts have a negative investment
 
-            return {
-              ...position,
-              currentPrice: priceData.currentPrice,
-              currentValue,
-              unrealizedPnL,
-              unrealizedPnLPercent
-            };
-          } catch (error) {
-            return {
-              ...position,
-              currentPrice: parseFloat(position.averagePrice),
-              currentValue: parseFloat(position.currentValue),
-              unrealizedPnL: 0,
-              unrealizedPnLPercent: 0
-            };
-          }
-        })
-      );
+          return {
+            ...position,
+            currentPrice: priceData.currentPrice,
+            currentValue,
+            unrealizedPnL,
+            unrealizedPnLPercent
+          };
+        } else {
+          return {
+            ...position,
+            currentPrice: parseFloat(position.averagePrice),
+            currentValue: parseFloat(position.currentValue),
+            unrealizedPnL: 0,
+            unrealizedPnLPercent: 0
+          };
+        }
+      });
 
       res.json(enrichedPositions);
     } catch (error) {
@@ -335,84 +714,365 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get portfolio summary
-  app.get("/api/portfolio", async (req, res) => {
+  // Open FIFO tax lots behind a position; ?product=MIS for the intraday position
+  app.get("/api/positions/:symbol/:exchange/lots", requireAuth, async (req, res) => {
     try {
-      const userId = 1; // Demo user ID
-      const user = await storage.getUser(userId);
-      const positions = await storage.getUserPositions(userId);
+      const { symbol, exchange } = req.params;
+      const product = req.query.product === "MIS" ? "MIS" : "CNC";
+      const lots = await storage.getOpenLots(req.user!.id, symbol, exchange, product);
+      res.json(lots);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tax lots" });
+    }
+  });
+
+  // Point-in-time valuation of an account at live prices
+  async function buildPortfolioSummary(user: User): Promise<PortfolioSummary> {
+    const userId = user.id;
+    const positions = await storage.getUserPositions(userId);
+
+    let totalValue = parseFloat(user.balance);
+    let totalInvestment = 0;
+    let totalPnL = 0;
+    let marginUsed = 0;
+
+    // Realized P&L is booked on closing trades, so it also covers symbols no longer held
+    const realizedBySymbol = new Map<string, { symbol: string; exchange: string; realizedPnL: number }>();
+    let totalCharges = 0;
+    for (const trade of await storage.getUserTrades(userId)) {
+      totalCharges += parseFloat(trade.totalCharges);
+      if (trade.realizedPnL === null) continue;
+      const key = `${trade.symbol}-${trade.exchange}`;
+      const entry = realizedBySymbol.get(key) || { symbol: trade.symbol, exchange: trade.exchange, realizedPnL: 0 };
+      entry.realizedPnL += parseFloat(trade.realizedPnL);
+      realizedBySymbol.set(key, entry);
+    }
+    const realizedPnLFor = (symbol: string, exchange: string) => realizedBySymbol.get(`${symbol}-${exchange}`)?.realizedPnL || 0;
+    const totalRealizedPnL = Array.from(realizedBySymbol.values()).reduce((sum, entry) => sum + entry.realizedPnL, 0);
 
+    const prices = await fetchStockPrices(positions);
+    const enrichedPositions = positions.map(position => {
+      const priceData = prices.get(`${position.symbol}-${position.exchange}`);
+      if (priceData) {
+        const currentValue = position.quantity * priceData.currentPrice;
+        const investment = position.quantity * parseFloat(position.averagePrice);
+        const unrealizedPnL = currentValue - investment;
+        const unrealizedPnLPercent = (unrealizedPnL / Math.abs(investment)) * 100;
+
+        // An MIS position is worth the margin it blocks plus its running P&L, not its full value
+        const margin = marginRequired(position.product, Math.abs(investment));
+        totalValue += margin + unrealizedPnL;
+        totalInvestment += Math.abs(investment);
+        totalPnL += unrealizedPnL;
+        if (position.product === "MIS") marginUsed += margin;
+
+        return {
+          symbol: position.symbol,
+          exchange: position.exchange,
+          product: position.product,
+          quantity: position.quantity,
+          averagePrice: parseFloat(position.averagePrice),
+          currentPrice: priceData.currentPrice,
+          currentValue,
+          unrealizedPnL,
+          unrealizedPnLPercent,
+          realizedPnL: realizedPnLFor(position.symbol, position.exchange)
+        };
+      } else {
+        const currentValue = parseFloat(position.currentValue);
+        const margin = marginRequired(position.product, Math.abs(currentValue));
+        totalValue += margin;
+        totalInvestment += Math.abs(currentValue);
+        if (position.product === "MIS") marginUsed += margin;
+
+        return {
+          symbol: position.symbol,
+          exchange: position.exchange,
+          product: position.product,
+          quantity: position.quantity,
+          averagePrice: parseFloat(position.averagePrice),
+          currentPrice: parseFloat(position.averagePrice),
+          currentValue,
+          unrealizedPnL: 0,
+          unrealizedPnLPercent: 0,
+          realizedPnL: realizedPnLFor(position.symbol, position.exchange)
+        };
+      }
+    });
+
+    const totalPnLPercent = totalInvestment > 0 ? (totalPnL / totalInvestment) * 100 : 0;
+    const { reservedCash } = await getReservations(userId);
+
+    return {
+      totalValue,
+      totalInvestment,
+      totalPnL,
+      totalPnLPercent,
+      totalUnrealizedPnL: totalPnL,
+      totalRealizedPnL,
+      totalCharges,
+      availableCash: parseFloat(user.balance),
+      reservedCash,
+      marginUsed,
+      buyingPower: parseFloat(user.balance) - reservedCash,
+      positions: enrichedPositions,
+      realizedPnLBySymbol: Array.from(realizedBySymbol.values())
+    };
+  }
+
+  // Get portfolio summary
+  app.get("/api/portfolio", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
 
-      let totalValue = parseFloat(user.balance);
-      let totalInvestment = 0;
-      let totalPnL = 0;
+      res.json(await buildPortfolioSummary(user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch portfolio summary" });
+    }
+  });
+
+  // End-of-day equity curve; ?from=&to= are inclusive YYYY-MM-DD dates, defaulting to the last year
+  app.get("/api/portfolio/history", requireAuth, async (req, res) => {
+    try {
+      const query = portfolioHistoryQuerySchema.parse(req.query);
+      const to = query.to || istDate();
+      const from = query.from || istDate(new Date(Date.now() - 365 * 24 * 60 * 60 * 1000));
+
+      if (from > to) {
+        return res.status(400).json({ error: "'from' must be before 'to'" });
+      }
+
+      const snapshots = await storage.getPortfolioSnapshots(req.user!.id, from, to);
+      const history: PortfolioHistoryPoint[] = snapshots.map(snapshot => ({
+        date: snapshot.date,
+        cash: parseFloat(snapshot.cash),
+        holdingsValue: parseFloat(snapshot.holdingsValue),
+        investedAmount: parseFloat(snapshot.investedAmount),
+        realizedPnL: parseFloat(snapshot.realizedPnL),
+        unrealizedPnL: parseFloat(snapshot.unrealizedPnL),
+        totalValue: parseFloat(snapshot.totalValue)
+      }));
 
-      const enrichedPositions = await Promise.all(
-        positions.map(async (position) => {
-          try {
-            const priceData = await fetchStockPrice(position.symbol, position.exchange);
-            const currentValue = position.quantity * priceData.currentPrice;
-            const investment = position.quantity * parseFloat(position.averagePrice);
-            const unrealizedPnL = currentValue - investment;
-            const unrealizedPnLPercent = (unrealizedPnL / investment) * 100;
+      res.json(history);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch portfolio history" });
+    }
+  });
 
-            totalValue += currentValue;
-            totalInvestment += investment;
-            totalPnL += unrealizedPnL;
+  // Daily closes of an index by IST date, fetched through the market data providers and stored as
+  // 1d price bars; the stored bars are used when no provider can serve the history
+  async function indexCloses(index: Instrument, from: Date, to: Date): Promise<Map<string, number>> {
+    try {
+      const bars = await marketData.getChart(index.symbol, index.exchange, "1d", from, to);
+      await priceHistory.backfill(index.symbol, index.exchange, "1d", bars);
+    } catch (error: any) {
+      console.error(`Index history fetch failed for ${index.symbol}:`, error.message);
+    }
 
-            return {
-              symbol: position.symbol,
-              exchange: position.exchange,
-              quantity: position.quantity,
-              averagePrice: parseFloat(position.averagePrice),
-              currentPrice: priceData.currentPrice,
-              currentValue,
-              unrealizedPnL,
-              unrealizedPnLPercent
-            };
-          } catch (error) {
-            const currentValue = parseFloat(position.currentValue);
-            totalValue += currentValue;
-            totalInvestment += currentValue;
+    const bars = await storage.getPriceBars(index.symbol, index.exchange, "1d", from, to);
+    return new Map(bars.map(bar => [istDate(bar.startTime), parseFloat(bar.close)]));
+  }
 
-            return {
-              symbol: position.symbol,
-              exchange: position.exchange,
-              quantity: position.quantity,
-              averagePrice: parseFloat(position.averagePrice),
-              currentPrice: parseFloat(position.averagePrice),
-              currentValue,
-              unrealizedPnL: 0,
-              unrealizedPnLPercent: 0
-            };
-          }
-        })
+  // Pair each day's portfolio return with the index's over the same close-to-close day.
+  // An index without a close on one of our trading days carries its previous close forward.
+  function compareToBenchmark(
+    index: Instrument,
+    periodDates: string[],
+    returnsByDate: Map<string, number>,
+    closes: Map<string, number>,
+    portfolioReturn: number
+  ): BenchmarkComparison | undefined {
+    const closeDates = Array.from(closes.keys()).sort();
+    let next = 0;
+    let lastClose: number | undefined;
+    const closeOn = periodDates.map(date => {
+      while (next < closeDates.length && closeDates[next] <= date) {
+        lastClose = closes.get(closeDates[next++]);
+      }
+      return lastClose;
+    });
+
+    const startClose = closeOn[0];
+    const endClose = closeOn[closeOn.length - 1];
+    if (!startClose || !endClose) return undefined;
+
+    const portfolioReturns: number[] = [];
+    const benchmarkReturns: number[] = [];
+    for (let i = 1; i < periodDates.length; i++) {
+      const dailyReturn = returnsByDate.get(periodDates[i]);
+      const previousClose = closeOn[i - 1];
+      const close = closeOn[i];
+      if (dailyReturn === undefined || !previousClose || !close) continue;
+      portfolioReturns.push(dailyReturn);
+      benchmarkReturns.push(close / previousClose - 1);
+    }
+
+    const benchmarkReturn = endClose / startClose - 1;
+    const stats = benchmarkStats(portfolioReturns, benchmarkReturns);
+    return {
+      symbol: index.symbol,
+      exchange: index.exchange,
+      startClose,
+      endClose,
+      portfolioReturn: portfolioReturn * 100,
+      benchmarkReturn: benchmarkReturn * 100,
+      excessReturn: (portfolioReturn - benchmarkReturn) * 100,
+      alpha: stats.alpha === null ? null : stats.alpha * 100,
+      beta: stats.beta,
+      trackingError: stats.trackingError * 100,
+      informationRatio: stats.informationRatio,
+      days: portfolioReturns.length
+    };
+  }
+
+  // Performance analytics rebuilt from the trade history, valued at stored daily closes and live prices.
+  // ?from=&to= (YYYY-MM-DD) bound the period; ?symbol= (and ?exchange=) restricts it to one instrument,
+  // whose returns are then its contribution to the account's. ?benchmark=^NSEI or ^BSESN adds an index comparison.
+  app.get("/api/analytics", requireAuth, async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const allTrades = await storage.getUserTrades(user.id);
+      const subjectTrades = allTrades.filter(trade =>
+        (!query.symbol || trade.symbol === query.symbol) &&
+        (!query.exchange || trade.exchange === query.exchange)
       );
+      const summary = await buildPortfolioSummary(user);
+
+      // Closes from the day before the first trade up to the latest trading day
+      const today = istDate();
+      const firstTradeAt = allTrades.length
+        ? allTrades.reduce((earliest, trade) => Math.min(earliest, trade.executedAt.getTime()), Infinity)
+        : Date.now();
+      const tradingDates = tradingDatesBetween(istDate(new Date(firstTradeAt)), today);
+      const dates = [istDate(new Date(firstTradeAt - 24 * 60 * 60 * 1000)), ...tradingDates];
+      const lastDate = dates[dates.length - 1];
 
-      const totalPnLPercent = totalInvestment > 0 ? (totalPnL / totalInvestment) * 100 : 0;
+      const from = query.from || dates[Math.min(1, dates.length - 1)];
+      const to = query.to || today;
+      if (from > to) {
+        return res.status(400).json({ error: "'from' must be before 'to'" });
+      }
+
+      // Stored daily closes, with live prices for the latest day
+      const instruments = new Map(allTrades.map(trade => [`${trade.symbol}-${trade.exchange}`, { symbol: trade.symbol, exchange: trade.exchange }]));
+      const closes = new Map<string, Map<string, number>>();
+      for (const [key, instrument] of Array.from(instruments.entries())) {
+        const bars = await storage.getPriceBars(instrument.symbol, instrument.exchange, "1d", new Date(firstTradeAt - 2 * 24 * 60 * 60 * 1000), new Date());
+        closes.set(key, new Map(bars.map(bar => [istDate(bar.startTime), parseFloat(bar.close)])));
+      }
+      const livePrices = await fetchStockPrices(await storage.getUserPositions(user.id));
+      const markFor = (key: string, date: string) =>
+        (date === lastDate ? livePrices.get(key)?.currentPrice : undefined) ?? closes.get(key)?.get(date);
+
+      // Trades are the only source of P&L, so the account started at today's value less all of it
+      const account = valueTradesDaily(allTrades, dates, markFor);
+      const subject = query.symbol || query.exchange ? valueTradesDaily(subjectTrades, dates, markFor) : account;
+      const startingEquity = summary.totalValue - account[account.length - 1].pnl;
+      const equity = account.map(day => startingEquity + day.pnl);
+
+      // The period runs from the close before `from` to the close on or before `to`
+      let startIndex = 0;
+      let endIndex = 0;
+      dates.forEach((date, i) => {
+        if (date < from) startIndex = i;
+        if (date <= to) endIndex = i;
+      });
+      endIndex = Math.max(startIndex, endIndex);
+
+      const points = dates.slice(startIndex, endIndex + 1).map((date, i) => ({
+        date,
+        value: equity[startIndex] + subject[startIndex + i].pnl - subject[startIndex].pnl
+      }));
+      const dailyReturns: number[] = [];
+      const returnsByDate = new Map<string, number>();
+      for (let i = startIndex + 1; i <= endIndex; i++) {
+        if (equity[i - 1] <= 0) continue;
+        const dailyReturn = (subject[i].pnl - subject[i - 1].pnl) / equity[i - 1];
+        dailyReturns.push(dailyReturn);
+        returnsByDate.set(dates[i], dailyReturn);
+      }
+      const timeWeightedReturn = dailyReturns.reduce((growth, value) => growth * (1 + value), 1) - 1;
 
-      const summary = {
-        totalValue,
-        totalInvestment,
-        totalPnL,
-        totalPnLPercent,
-        availableCash: parseFloat(user.balance),
-        positions: enrichedPositions
+      const periodStart = new Date(`${dates[startIndex]}T10:00:00Z`); // 15:30 IST, the close
+      const periodEnd = new Date(`${dates[endIndex]}T10:00:00Z`);
+      const periodDays = (periodEnd.getTime() - periodStart.getTime()) / (24 * 60 * 60 * 1000);
+
+      // Money-weighted: what was held at the start goes in, trades move cash, what is held at the end comes out
+      const periodTrades = subjectTrades.filter(trade => {
+        const date = istDate(trade.executedAt);
+        return date > dates[startIndex] && date <= dates[endIndex];
+      });
+      const flows: CashFlow[] = [
+        { amount: -subject[startIndex].marketValue, date: periodStart },
+        ...periodTrades.map(trade => ({
+          amount: (trade.tradeType === "BUY" ? -1 : 1) * parseFloat(trade.netAmount),
+          date: trade.executedAt
+        })),
+        { amount: subject[endIndex].marketValue, date: periodEnd }
+      ].filter(flow => flow.amount !== 0);
+      const moneyWeightedReturn = xirr(flows);
+
+      const drawdown = maxDrawdown(points);
+      const sharpe = sharpeRatio(dailyReturns);
+      const sortino = sortinoRatio(dailyReturns);
+      const startValue = points[0].value;
+      const endValue = points[points.length - 1].value;
+
+      const analytics: PortfolioAnalytics = {
+        from,
+        to,
+        symbol: query.symbol || null,
+        exchange: query.exchange || null,
+        startValue,
+        endValue,
+        pnl: endValue - startValue,
+        timeWeightedReturn: timeWeightedReturn * 100,
+        annualizedReturn: periodDays >= 1 ? (Math.pow(1 + timeWeightedReturn, 365 / periodDays) - 1) * 100 : null,
+        moneyWeightedReturn: moneyWeightedReturn === null ? null : moneyWeightedReturn * 100,
+        maxDrawdown: drawdown.drawdown * 100,
+        maxDrawdownPeakDate: drawdown.peakDate,
+        maxDrawdownTroughDate: drawdown.troughDate,
+        volatility: annualizedVolatility(dailyReturns) * 100,
+        sharpeRatio: sharpe,
+        sortinoRatio: sortino,
+        riskFreeRate: RISK_FREE_RATE * 100,
+        ...closedTradeStats(periodTrades)
       };
 
-      res.json(summary);
+      if (query.benchmark) {
+        const index = BENCHMARK_INDICES[query.benchmark];
+        const closes = await indexCloses(index, new Date(periodStart.getTime() - 10 * 24 * 60 * 60 * 1000), new Date());
+        const comparison = compareToBenchmark(index, dates.slice(startIndex, endIndex + 1), returnsByDate, closes, timeWeightedReturn);
+        if (!comparison) {
+          return res.status(503).json({ error: `No ${query.benchmark} history available for this period` });
+        }
+        analytics.benchmark = comparison;
+      }
+
+      res.json(analytics);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch portfolio summary" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to compute analytics" });
     }
   });
 
   // Get user trades
-  app.get("/api/trades", async (req, res) => {
+  app.get("/api/trades", requireAuth, async (req, res) => {
     try {
-      const userId = 1; // Demo user ID
+      const userId = req.user!.id;
       const trades = await storage.getUserTrades(userId);
       res.json(trades);
     } catch (error) {
@@ -420,36 +1080,743 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Background process to check and execute pending orders
-  setInterval(async () => {
-    try {
-      const activeOrders = await storage.getActiveOrders(1); // Demo user ID
-      
-      for (const order of activeOrders) {
-        try {
-          const priceData = await fetchStockPrice(order.symbol, order.exchange);
-          const currentPrice = priceData.currentPrice;
-          const limitPrice = parseFloat(order.limitPrice);
-          
-          let shouldExecute = false;
-          if (order.orderType === "BUY" && currentPrice <= limitPrice) {
-            shouldExecute = true;
-          } else if (order.orderType === "SELL" && currentPrice >= limitPrice) {
-            shouldExecute = true;
-          }
+  // Send records dated (IST) within the query's range as a CSV or XLSX attachment.
+  // The range defaults to everything up to today.
+  async function sendExport<T>(
+    req: Request,
+    res: Response,
+    kind: string,
+    records: T[],
+    dateOf: (record: T) => Date,
+    build: (records: T[], format: ExportFormat) => Sheet[]
+  ) {
+    const query = exportQuerySchema.parse(req.query);
+    const to = query.to || istDate();
+    const from = query.from || records.reduce((earliest, record) => {
+      const date = istDate(dateOf(record));
+      return date < earliest ? date : earliest;
+    }, to);
 
-          if (shouldExecute) {
-            await executeOrder(order.id, currentPrice);
-          }
-        } catch (error) {
-          console.error(`Failed to check order ${order.id}:`, error);
-        }
-      }
-    } catch (error) {
-      console.error("Failed to process pending orders:", error);
+    if (from > to) {
+      return res.status(400).json({ error: "'from' must be before 'to'" });
+    }
+
+    const selected = records.filter(record => {
+      const date = istDate(dateOf(record));
+      return date >= from && date <= to;
+    });
+    const sheets = build(selected, query.format);
+
+    res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[query.format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${exportFilename(req.user!.username, kind, from, to, query.format)}"`);
+    res.send(query.format === "xlsx" ? toXlsx(sheets) : toCsv(sheets[0]));
+  }
+
+  // Export executed trades with their itemised charges
+  app.get("/api/exports/trades", requireAuth, async (req, res) => {
+    try {
+      const trades = (await storage.getUserTrades(req.user!.id)).reverse();
+      await sendExport(req, res, "trades", trades, trade => trade.executedAt, selected => [tradesSheet(selected)]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export trades" });
+    }
+  });
+
+  // Export orders placed in the range, whatever their status
+  app.get("/api/exports/orders", requireAuth, async (req, res) => {
+    try {
+      const orders = (await storage.getUserOrders(req.user!.id)).sort((a, b) => a.id - b.id);
+      await sendExport(req, res, "orders", orders, order => order.createdAt, selected => [ordersSheet(selected)]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export orders" });
+    }
+  });
+
+  // Export a contract-note style statement of each trading day's trades, charges and net obligation
+  app.get("/api/exports/statement", requireAuth, async (req, res) => {
+    try {
+      const trades = await storage.getUserTrades(req.user!.id);
+      await sendExport(req, res, "statement", trades, trade => trade.executedAt, (selected, format) =>
+        format === "xlsx" ? statementSheets(selected) : [statementCsvSheet(selected)]
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export statement" });
+    }
+  });
+
+  // A watchlist owned by the requesting user, or undefined after sending the 400/404 response
+  async function ownedWatchlist(req: Request, res: Response): Promise<Watchlist | undefined> {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      res.status(400).json({ error: "Invalid watchlist id" });
+      return undefined;
+    }
+
+    const watchlist = await storage.getWatchlist(id);
+    if (!watchlist || watchlist.userId !== req.user!.id) {
+      res.status(404).json({ error: "Watchlist not found" });
+      return undefined;
+    }
+    return watchlist;
+  }
+
+  // True when `ids` is exactly `existing` in some order
+  function isPermutation(ids: number[], existing: number[]): boolean {
+    const unique = new Set(ids);
+    return unique.size === ids.length && ids.length === existing.length && existing.every(id => unique.has(id));
+  }
+
+  // Get the user's watchlists with their instruments
+  app.get("/api/watchlists", requireAuth, async (req, res) => {
+    try {
+      const watchlists = await storage.getWatchlists(req.user!.id);
+      res.json(await Promise.all(watchlists.map(async watchlist => ({
+        ...watchlist,
+        items: await storage.getWatchlistItems(watchlist.id)
+      }))));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch watchlists" });
+    }
+  });
+
+  // Create a watchlist at the end of the user's lists
+  app.post("/api/watchlists", requireAuth, async (req, res) => {
+    try {
+      const { name } = watchlistNameSchema.parse(req.body);
+      const userId = req.user!.id;
+
+      const existing = await storage.getWatchlists(userId);
+      if (existing.some(watchlist => watchlist.name === name)) {
+        return res.status(409).json({ error: "A watchlist with this name already exists", code: "WATCHLIST_EXISTS" });
+      }
+
+      // Another request can take the name between the check above and the insert
+      const watchlist = await storage.createWatchlist(userId, name);
+      if (!watchlist) {
+        return res.status(409).json({ error: "A watchlist with this name already exists", code: "WATCHLIST_EXISTS" });
+      }
+      res.status(201).json({ ...watchlist, items: [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid watchlist data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create watchlist" });
+    }
+  });
+
+  // Reorder the user's watchlists; `ids` must list every one of them
+  app.put("/api/watchlists/order", requireAuth, async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const userId = req.user!.id;
+
+      const existing = await storage.getWatchlists(userId);
+      if (!isPermutation(ids, existing.map(watchlist => watchlist.id))) {
+        return res.status(400).json({ error: "ids must list each of your watchlists exactly once" });
+      }
+
+      await storage.reorderWatchlists(userId, ids);
+      res.json(await storage.getWatchlists(userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid watchlist order", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to reorder watchlists" });
+    }
+  });
+
+  // A watchlist's instruments in order, each with a live quote (day change and change percent
+  // against the previous close). Stored prices stand in when live data is unavailable.
+  app.get("/api/watchlists/:id", requireAuth, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      const items = await storage.getWatchlistItems(watchlist.id);
+      const prices = await fetchStockPrices(items);
+
+      const quotedItems = await Promise.all(items.map(async item => {
+        const live = prices.get(`${item.symbol}-${item.exchange}`);
+        if (live) {
+          return { ...item, quote: live, live: true };
+        }
+        const stock = await storage.getStock(item.symbol, item.exchange);
+        return { ...item, quote: stock ? storedQuote(stock) : null, live: false };
+      }));
+
+      res.json({ ...watchlist, items: quotedItems });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch watchlist" });
+    }
+  });
+
+  // Rename a watchlist
+  app.patch("/api/watchlists/:id", requireAuth, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      const { name } = watchlistNameSchema.parse(req.body);
+      const existing = await storage.getWatchlists(watchlist.userId);
+      if (existing.some(other => other.id !== watchlist.id && other.name === name)) {
+        return res.status(409).json({ error: "A watchlist with this name already exists", code: "WATCHLIST_EXISTS" });
+      }
+
+      const renamed = await storage.renameWatchlist(watchlist.id, name);
+      if (!renamed) {
+        if (!await storage.getWatchlist(watchlist.id)) {
+          return res.status(404).json({ error: "Watchlist not found" });
+        }
+        return res.status(409).json({ error: "A watchlist with this name already exists", code: "WATCHLIST_EXISTS" });
+      }
+      res.json(renamed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid watchlist data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update watchlist" });
+    }
+  });
+
+  // Delete a watchlist and its instruments
+  app.delete("/api/watchlists/:id", requireAuth, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      await storage.deleteWatchlist(watchlist.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete watchlist" });
+    }
+  });
+
+  // Add an instrument to the end of a watchlist. It need not be in the stocks table,
+  // but the market data providers must be able to price it.
+  app.post("/api/watchlists/:id/items", requireAuth, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      const { symbol, exchange } = watchlistItemSchema.parse(req.body);
+      const items = await storage.getWatchlistItems(watchlist.id);
+      if (items.some(item => item.symbol === symbol && item.exchange === exchange)) {
+        return res.status(409).json({ error: `${symbol} is already on this watchlist`, code: "WATCHLIST_ITEM_EXISTS" });
+      }
+
+      if (!await storage.getStock(symbol, exchange)) {
+        try {
+          await fetchStockPrice(symbol, exchange);
+        } catch (error) {
+          return res.status(404).json({ error: "Stock not found" });
+        }
+      }
+
+      res.status(201).json(await storage.addWatchlistItem(watchlist.id, symbol, exchange));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid watchlist item", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to add to watchlist" });
+    }
+  });
+
+  // Reorder a watchlist's instruments; `ids` must list every item on it
+  app.put("/api/watchlists/:id/items/order", requireAuth, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      const { ids } = reorderSchema.parse(req.body);
+      const items = await storage.getWatchlistItems(watchlist.id);
+      if (!isPermutation(ids, items.map(item => item.id))) {
+        return res.status(400).json({ error: "ids must list each item on the watchlist exactly once" });
+      }
+
+      await storage.reorderWatchlistItems(watchlist.id, ids);
+      res.json(await storage.getWatchlistItems(watchlist.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid watchlist order", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to reorder watchlist" });
+    }
+  });
+
+  // Remove an instrument from a watchlist
+  app.delete("/api/watchlists/:id/items/:symbol/:exchange", requireAuth, async (req, res) => {
+    try {
+      const watchlist = await ownedWatchlist(req, res);
+      if (!watchlist) return;
+
+      const removed = await storage.removeWatchlistItem(
+        watchlist.id,
+        req.params.symbol.toUpperCase(),
+        req.params.exchange.toUpperCase()
+      );
+      if (!removed) {
+        return res.status(404).json({ error: "Stock is not on this watchlist" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove from watchlist" });
+    }
+  });
+
+  // An alert owned by the requesting user, or undefined after sending the 400/404 response
+  async function ownedAlert(req: Request, res: Response): Promise<PriceAlert | undefined> {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      res.status(400).json({ error: "Invalid alert id" });
+      return undefined;
+    }
+
+    const alert = await storage.getPriceAlert(id);
+    if (!alert || alert.userId !== req.user!.id) {
+      res.status(404).json({ error: "Alert not found" });
+      return undefined;
+    }
+    return alert;
+  }
+
+  // Get the user's price alerts, newest first
+  app.get("/api/alerts", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getUserPriceAlerts(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alerts" });
+    }
+  });
+
+  // Create a price alert; it is checked against live prices while the market is open
+  app.post("/api/alerts", requireAuth, async (req, res) => {
+    try {
+      const alertData = insertPriceAlertSchema.parse(req.body);
+
+      if (!await storage.getStock(alertData.symbol, alertData.exchange)) {
+        try {
+          await fetchStockPrice(alertData.symbol, alertData.exchange);
+        } catch (error) {
+          return res.status(404).json({ error: "Stock not found" });
+        }
+      }
+
+      const alert = await storage.createPriceAlert({ ...alertData, userId: req.user!.id });
+      res.status(201).json(alert);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid alert data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create alert" });
+    }
+  });
+
+  // When the user's alerts fired, newest first; ?alertId= for one alert
+  app.get("/api/alerts/history", requireAuth, async (req, res) => {
+    try {
+      let alertId: number | undefined;
+      if (req.query.alertId !== undefined) {
+        alertId = parseId(String(req.query.alertId));
+        if (alertId === undefined) {
+          return res.status(400).json({ error: "Invalid alert id" });
+        }
+      }
+
+      res.json(await storage.getPriceAlertTriggers(req.user!.id, alertId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alert history" });
+    }
+  });
+
+  // An alert with its firing history
+  app.get("/api/alerts/:id", requireAuth, async (req, res) => {
+    try {
+      const alert = await ownedAlert(req, res);
+      if (!alert) return;
+
+      res.json({ ...alert, history: await storage.getPriceAlertTriggers(alert.userId, alert.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alert" });
+    }
+  });
+
+  // Edit, disable or re-arm an alert
+  app.patch("/api/alerts/:id", requireAuth, async (req, res) => {
+    try {
+      const alert = await ownedAlert(req, res);
+      if (!alert) return;
+
+      const updates = updatePriceAlertSchema.parse(req.body);
+
+      // The edited alert must still be a valid alert
+      const merged = insertPriceAlertSchema.safeParse({
+        symbol: alert.symbol,
+        exchange: alert.exchange,
+        condition: updates.condition ?? alert.condition,
+        threshold: updates.threshold !== undefined ? updates.threshold : alert.threshold
+      });
+      if (!merged.success) {
+        return res.status(400).json({ error: "Invalid alert data", details: merged.error.errors });
+      }
+
+      // Any edit other than disabling arms the alert again from a fresh reference level
+      const changes: PriceAlertUpdate = {
+        condition: merged.data.condition,
+        threshold: merged.data.threshold ?? null,
+        referencePrice: null,
+        status: updates.status ?? "ACTIVE"
+      };
+
+      res.json(await storage.updatePriceAlert(alert.id, changes));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid alert data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update alert" });
+    }
+  });
+
+  // Delete an alert; its firing history is kept
+  app.delete("/api/alerts/:id", requireAuth, async (req, res) => {
+    try {
+      const alert = await ownedAlert(req, res);
+      if (!alert) return;
+
+      await storage.deletePriceAlert(alert.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete alert" });
+    }
+  });
+
+  // A webhook owned by the requesting user, or undefined after sending the 400/404 response
+  async function ownedWebhook(req: Request, res: Response): Promise<Webhook | undefined> {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      res.status(400).json({ error: "Invalid webhook id" });
+      return undefined;
+    }
+
+    const webhook = await storage.getWebhook(id);
+    if (!webhook || webhook.userId !== req.user!.id) {
+      res.status(404).json({ error: "Webhook not found" });
+      return undefined;
+    }
+    return webhook;
+  }
+
+  // The signing secret is only returned when it is created or rotated
+  function publicWebhook(webhook: Webhook) {
+    const { secret, ...rest } = webhook;
+    return rest;
+  }
+
+  // Get the user's webhooks
+  app.get("/api/webhooks", requireAuth, async (req, res) => {
+    try {
+      const webhooks = await storage.getUserWebhooks(req.user!.id);
+      res.json(webhooks.map(publicWebhook));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch webhooks" });
+    }
+  });
+
+  // Register a webhook URL for a set of events; the response carries its signing secret
+  app.post("/api/webhooks", requireAuth, async (req, res) => {
+    try {
+      const webhookData = insertWebhookSchema.parse(req.body);
+      const urlError = await webhookUrlError(webhookData.url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError, code: "WEBHOOK_URL_NOT_ALLOWED" });
+      }
+      const webhook = await storage.createWebhook({ ...webhookData, userId: req.user!.id, secret: generateWebhookSecret() });
+      res.status(201).json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid webhook data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  // Change a webhook's URL or events, or disable it
+  app.patch("/api/webhooks/:id", requireAuth, async (req, res) => {
+    try {
+      const webhook = await ownedWebhook(req, res);
+      if (!webhook) return;
+
+      const updates = updateWebhookSchema.parse(req.body);
+      const urlError = updates.url && await webhookUrlError(updates.url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError, code: "WEBHOOK_URL_NOT_ALLOWED" });
+      }
+      const updated = await storage.updateWebhook(webhook.id, updates);
+      res.json(updated && publicWebhook(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid webhook data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  // Delete a webhook; its pending retries fail
+  app.delete("/api/webhooks/:id", requireAuth, async (req, res) => {
+    try {
+      const webhook = await ownedWebhook(req, res);
+      if (!webhook) return;
+
+      await storage.deleteWebhook(webhook.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  // Replace a webhook's signing secret
+  app.post("/api/webhooks/:id/rotate-secret", requireAuth, async (req, res) => {
+    try {
+      const webhook = await ownedWebhook(req, res);
+      if (!webhook) return;
+
+      const secret = generateWebhookSecret();
+      await storage.updateWebhook(webhook.id, { secret });
+      res.json({ ...webhook, secret });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  // Send a "ping" event right away, e.g. to check a receiver and its signature verification
+  app.post("/api/webhooks/:id/test", requireAuth, async (req, res) => {
+    try {
+      const webhook = await ownedWebhook(req, res);
+      if (!webhook) return;
+
+      const delivery = await sendWebhookEvent({ ...webhook, active: true }, "ping", { message: "Webhook test delivery" });
+      res.json(delivery);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to send test webhook" });
+    }
+  });
+
+  // Delivery log for a webhook, newest first; ?limit= from 1 to 500
+  app.get("/api/webhooks/:id/deliveries", requireAuth, async (req, res) => {
+    try {
+      const { limit } = webhookDeliveriesQuerySchema.parse(req.query);
+      const webhook = await ownedWebhook(req, res);
+      if (!webhook) return;
+
+      res.json(await storage.getWebhookDeliveries(webhook.id, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Fire the active alerts whose condition the latest quotes meet, and track the
+  // day high/low the crossing conditions compare against
+  async function checkPriceAlerts(alerts: PriceAlert[], prices: Map<string, StockPrice>) {
+    for (const alert of alerts) {
+      try {
+        const quote = prices.get(`${alert.symbol}-${alert.exchange}`);
+        if (!quote || (quote.marketState && quote.marketState !== "REGULAR")) continue;
+
+        const evaluation = evaluateAlert(alert, quote);
+        if (evaluation.triggered) {
+          const fired = await storage.triggerPriceAlert(alert.id, quote.currentPrice, evaluation.changePercent);
+          if (fired) {
+            tradingEvents.publish({ type: "alert.triggered", userId: alert.userId, alert: fired.alert, trigger: fired.trigger });
+          }
+        }
+
+        const referencePrice = evaluation.referencePrice === null ? null : evaluation.referencePrice.toFixed(2);
+        if (!evaluation.triggered && referencePrice !== alert.referencePrice) {
+          await storage.updatePriceAlert(alert.id, { referencePrice });
+        }
+      } catch (error) {
+        console.error(`Failed to check alert ${alert.id}:`, error);
+      }
+    }
+  }
+
+  // Background process to check and execute pending orders, and check price alerts, during market hours.
+  // A tick is skipped while the previous one is still running.
+  let processingOrders = false;
+  setInterval(async () => {
+    if (processingOrders || !isMarketOpen()) return;
+    processingOrders = true;
+
+    try {
+      const activeOrders = await storage.getAllActiveOrders();
+      const activeAlerts = await storage.getActivePriceAlerts();
+      const prices = await fetchStockPrices([...activeOrders, ...activeAlerts]);
+
+      for (const order of activeOrders) {
+        try {
+          const priceData = prices.get(`${order.symbol}-${order.exchange}`);
+          if (!priceData) {
+            console.error(`No price available to check order ${order.id}`);
+            continue;
+          }
+
+          // Don't match against stale prices if the exchange reports it is not trading
+          if (priceData.marketState && priceData.marketState !== "REGULAR") continue;
+
+          await processOrder(order, priceData);
+        } catch (error) {
+          console.error(`Failed to check order ${order.id}:`, error);
+        }
+      }
+
+      await checkPriceAlerts(activeAlerts, prices);
+    } catch (error) {
+      console.error("Failed to process pending orders:", error);
+    } finally {
+      processingOrders = false;
     }
   }, 5000); // Check every 5 seconds
 
+  // Sweep pending orders past their validity into EXPIRED
+  setInterval(async () => {
+    try {
+      const expiredOrders = await storage.expireOrders(new Date());
+      for (const { order, legs } of expiredOrders) {
+        tradingEvents.publish({ type: "order.expired", userId: order.userId, order });
+        for (const leg of legs) {
+          tradingEvents.publish({ type: "order.placed", userId: leg.userId, order: leg });
+        }
+      }
+      if (expiredOrders.length > 0) {
+        console.log(`Expired ${expiredOrders.length} order(s)`);
+      }
+    } catch (error) {
+      console.error("Failed to expire orders:", error);
+    }
+  }, 60000); // Sweep every minute
+
+  // Intraday positions still open after the close were not squared off, e.g. because no price was
+  // available, and carry overnight. Flag them once per trading day.
+  let lastCarryCheckDate: string | null = null;
+  async function flagCarriedIntradayPositions() {
+    const today = istDate();
+    if (lastCarryCheckDate === today || !isAfterSessionClose()) return;
+    lastCarryCheckDate = today;
+
+    for (const position of await storage.getPositionsByProduct("MIS")) {
+      console.error(`MIS position ${position.symbol} (${position.quantity}) for user ${position.userId} was not squared off and carries overnight`);
+    }
+  }
+
+  // From the MIS cut-off, close out open intraday positions with market orders.
+  // Pending MIS orders are cancelled first so they cannot reopen a position.
+  let squaringOff = false;
+  setInterval(async () => {
+    if (squaringOff) return;
+    if (!isSquareOffWindow()) {
+      await flagCarriedIntradayPositions().catch(error => {
+        console.error("Failed to check for unsquared intraday positions:", error);
+      });
+      return;
+    }
+    squaringOff = true;
+
+    try {
+      const pendingIntraday = (await storage.getAllActiveOrders()).filter(order => order.product === "MIS");
+      for (const order of pendingIntraday) {
+        await cancelOrderAndPublish(order.id, "MIS_SQUARE_OFF");
+      }
+
+      const openPositions = await storage.getPositionsByProduct("MIS");
+      const prices = await fetchStockPrices(openPositions);
+
+      for (const position of openPositions) {
+        try {
+          const priceData = prices.get(`${position.symbol}-${position.exchange}`);
+          if (!priceData) {
+            console.error(`No price available to square off ${position.symbol} for user ${position.userId}`);
+            continue;
+          }
+
+          const order = await storage.createOrder({
+            userId: position.userId,
+            symbol: position.symbol,
+            exchange: position.exchange,
+            orderType: position.quantity > 0 ? "SELL" : "BUY",
+            product: "MIS",
+            priceType: "MARKET",
+            validity: "IOC",
+            quantity: Math.abs(position.quantity)
+          });
+          tradingEvents.publish({ type: "order.placed", userId: order.userId, order });
+          await processOrder(order, priceData);
+        } catch (error) {
+          console.error(`Failed to square off ${position.symbol} for user ${position.userId}:`, error);
+        }
+      }
+      if (openPositions.length > 0) {
+        console.log(`Squared off ${openPositions.length} MIS position(s)`);
+      }
+    } catch (error) {
+      console.error("Failed to square off intraday positions:", error);
+    } finally {
+      squaringOff = false;
+    }
+  }, 30000); // Check every 30 seconds
+
+  // After the close of each trading day, store every account's end-of-day snapshot.
+  // Retakes replace the day's row, so a restart after the close only refreshes it.
+  let lastSnapshotDate: string | null = null;
+  let snapshotting = false;
+  setInterval(async () => {
+    const today = istDate();
+    if (snapshotting || lastSnapshotDate === today || !isAfterSessionClose()) return;
+    snapshotting = true;
+
+    try {
+      for (const user of await storage.getAllUsers()) {
+        try {
+          const summary = await buildPortfolioSummary(user);
+          await storage.upsertPortfolioSnapshot({
+            userId: user.id,
+            date: today,
+            cash: summary.availableCash.toFixed(2),
+            holdingsValue: (summary.totalValue - summary.availableCash).toFixed(2),
+            investedAmount: summary.totalInvestment.toFixed(2),
+            realizedPnL: summary.totalRealizedPnL.toFixed(2),
+            unrealizedPnL: summary.totalUnrealizedPnL.toFixed(2),
+            totalValue: summary.totalValue.toFixed(2)
+          });
+        } catch (error) {
+          console.error(`Failed to snapshot portfolio for user ${user.id}:`, error);
+        }
+      }
+      lastSnapshotDate = today;
+    } catch (error) {
+      console.error("Failed to take portfolio snapshots:", error);
+    } finally {
+      snapshotting = false;
+    }
+  }, 60000);
+
   const httpServer = createServer(app);
+
+  // Live price ticks and order/position events over WebSocket
+  setupRealtime(httpServer, fetchStockPrices);
+
+  // Signed HTTP callbacks for the same events, with retries
+  setupWebhooks(httpServer);
+
   return httpServer;
 }
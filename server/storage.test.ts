@@ -0,0 +1,192 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { DatabaseStorage, MemStorage, type NewOrder } from "./storage";
+import { pool } from "./db";
+
+// Runs on Node's built-in runner once bundled with the esbuild that Vite brings along:
+//   npx esbuild server/storage.test.ts --bundle --platform=node --format=esm --packages=external --alias:@shared=./shared \
+//     --outfile=node_modules/.cache/storage.test.mjs && node --test node_modules/.cache/storage.test.mjs
+
+const DEMO_USER_ID = 1; // seeded by MemStorage with a balance of 100000.00
+
+function marketBuy(quantity: number): NewOrder {
+  return {
+    userId: DEMO_USER_ID,
+    symbol: "TCS",
+    exchange: "NSE",
+    orderType: "BUY",
+    product: "CNC",
+    priceType: "MARKET",
+    validity: "GTC",
+    quantity
+  };
+}
+
+test("overlapping executeOrder calls fill an order only once", async () => {
+  const storage = new MemStorage();
+  const order = await storage.createOrder(marketBuy(10));
+  const balanceBefore = parseFloat((await storage.getUser(DEMO_USER_ID))!.balance);
+
+  const executions = await Promise.all(
+    Array.from({ length: 5 }, () => storage.executeOrder(order.id, 100, 10))
+  );
+
+  const fills = executions.filter(execution => execution !== undefined);
+  assert.equal(fills.length, 1);
+
+  const trades = await storage.getUserTrades(DEMO_USER_ID);
+  assert.equal(trades.length, 1);
+  assert.equal(trades[0].quantity, 10);
+
+  const filled = await storage.getOrder(order.id);
+  assert.equal(filled!.status, "EXECUTED");
+  assert.equal(filled!.filledQuantity, 10);
+
+  // Debited once: the trade's value plus its charges
+  const balanceAfter = parseFloat((await storage.getUser(DEMO_USER_ID))!.balance);
+  assert.equal(balanceAfter, parseFloat((balanceBefore - parseFloat(trades[0].netAmount)).toFixed(2)));
+
+  const position = await storage.getPosition(DEMO_USER_ID, "TCS", "NSE", "CNC");
+  assert.equal(position!.quantity, 10);
+});
+
+test("overlapping tranches never fill more than the order quantity", async () => {
+  const storage = new MemStorage();
+  const order = await storage.createOrder(marketBuy(10));
+
+  const executions = await Promise.all(
+    Array.from({ length: 4 }, () => storage.executeOrder(order.id, 100, 4))
+  );
+
+  assert.deepEqual(executions.map(execution => execution?.trade.quantity), [4, 4, 2, undefined]);
+
+  const trades = await storage.getUserTrades(DEMO_USER_ID);
+  assert.equal(trades.reduce((sum, trade) => sum + trade.quantity, 0), 10);
+
+  const filled = await storage.getOrder(order.id);
+  assert.equal(filled!.status, "EXECUTED");
+  assert.equal(filled!.filledQuantity, 10);
+  assert.equal((await storage.getPosition(DEMO_USER_ID, "TCS", "NSE", "CNC"))!.quantity, 10);
+});
+
+test("a split fill pays per-order charges once", async () => {
+  const storage = new MemStorage();
+  const whole = await storage.createOrder({ ...marketBuy(500), product: "MIS" });
+  await storage.executeOrder(whole.id, 200, 500);
+  const [wholeTrade] = await storage.getUserTrades(DEMO_USER_ID);
+
+  const split = await storage.createOrder({ ...marketBuy(500), product: "MIS" });
+  for (let i = 0; i < 5; i++) {
+    await storage.executeOrder(split.id, 200, 100);
+  }
+  const splitTrades = (await storage.getUserTrades(DEMO_USER_ID)).filter(trade => trade.orderId === split.id);
+  assert.equal(splitTrades.length, 5);
+
+  const total = (field: "brokerage" | "totalCharges") =>
+    splitTrades.reduce((sum, trade) => sum + parseFloat(trade[field]), 0).toFixed(2);
+  assert.equal(total("brokerage"), "20.00"); // the intraday cap applies to the order, not each tranche
+  assert.equal(total("totalCharges"), wholeTrade.totalCharges);
+});
+
+test("a part-filled bracket entry gets exit legs for its filled shares when cancelled", async () => {
+  const storage = new MemStorage();
+  const bracket = {
+    takeProfitType: "PERCENTAGE",
+    takeProfitValue: "5",
+    stopLossType: "PERCENTAGE",
+    stopLossValue: "2"
+  };
+  const order = await storage.createOrder({ ...marketBuy(10), ...bracket });
+  const partial = await storage.executeOrder(order.id, 100, 4);
+  assert.deepEqual(partial!.legs, []);
+
+  const cancellation = await storage.cancelOrder(order.id, "USER_CANCELLED");
+  assert.deepEqual(
+    cancellation!.legs.map(leg => [leg.legType, leg.quantity, leg.limitPrice ?? leg.triggerPrice]),
+    [["TAKE_PROFIT", 4, "105.00"], ["STOP_LOSS", 4, "98.00"]]
+  );
+
+  // Square-off closes the intraday position itself, so it gets no legs
+  const intraday = await storage.createOrder({ ...marketBuy(10), ...bracket, product: "MIS" });
+  await storage.executeOrder(intraday.id, 100, 4);
+  assert.deepEqual((await storage.cancelOrder(intraday.id, "MIS_SQUARE_OFF"))!.legs, []);
+});
+
+test("an IOC order's unfilled remainder is cancelled by the fill that left it", async () => {
+  const storage = new MemStorage();
+  const order = await storage.createOrder({ ...marketBuy(10), product: "MIS", validity: "IOC" });
+
+  const execution = await storage.executeOrder(order.id, 100, 4);
+  assert.equal(execution!.order.status, "CANCELLED");
+  assert.equal(execution!.order.cancellationReason, "IOC_UNFILLED");
+  assert.equal(execution!.order.filledQuantity, 4);
+  assert.equal(await storage.executeOrder(order.id, 100, 6), undefined);
+});
+
+test("concurrent placements for an account run their checks one at a time", async () => {
+  const storage = new MemStorage();
+
+  // Allows one open order per account, and yields between reading and deciding
+  const onlyOrder = async () => {
+    const active = await storage.getActiveOrders(DEMO_USER_ID);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    return active.length > 0 ? "ORDER_OPEN" : undefined;
+  };
+
+  const placements = await Promise.all(
+    Array.from({ length: 3 }, () => storage.createOrderIfAllowed(marketBuy(10), onlyOrder))
+  );
+
+  assert.equal(placements.filter(placement => "order" in placement).length, 1);
+  assert.equal((await storage.getActiveOrders(DEMO_USER_ID)).length, 1);
+});
+
+test("an edit and a placement for an account run their checks one at a time", async () => {
+  const storage = new MemStorage();
+  const order = await storage.createOrder({ ...marketBuy(10), priceType: "LIMIT", limitPrice: "100.00" });
+
+  // Allows 20 shares on order across the account, and yields between reading and deciding
+  const withinLimit = (extra: number, replacesOrderId?: number) => async () => {
+    const active = await storage.getActiveOrders(DEMO_USER_ID);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const onOrder = active.filter(open => open.id !== replacesOrderId).reduce((sum, open) => sum + open.quantity, 0);
+    return onOrder + extra > 20 ? "LIMIT_EXCEEDED" : undefined;
+  };
+
+  const [modification, placement] = await Promise.all([
+    storage.modifyOrderIfAllowed(order.id, { quantity: 15 }, { quantity: { from: 10, to: 15 } }, withinLimit(15, order.id)),
+    storage.createOrderIfAllowed(marketBuy(10), withinLimit(10))
+  ]);
+
+  assert.ok(modification && "order" in modification);
+  assert.ok("rejection" in placement);
+  assert.equal((await storage.getOrderModifications(order.id)).length, 1);
+});
+
+// Needs a scratch database with the schema pushed; each run registers its own user
+describe("DatabaseStorage", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" }, () => {
+  after(() => pool.end());
+
+  test("both exit legs of a bracket filling at once settle without deadlocking", async () => {
+    const storage = new DatabaseStorage();
+    const user = await storage.createUser({ username: `oco-${randomBytes(6).toString("hex")}`, password: "unused" });
+    const entry = await storage.createOrder({
+      ...marketBuy(10),
+      userId: user!.id,
+      takeProfitType: "PERCENTAGE",
+      takeProfitValue: "5",
+      stopLossType: "PERCENTAGE",
+      stopLossValue: "2"
+    });
+    const { legs } = (await storage.executeOrder(entry.id, 100, 10))!;
+    assert.equal(legs.length, 2);
+
+    const executions = await Promise.all(legs.map(leg => storage.executeOrder(leg.id, 100, 10)));
+
+    const fills = executions.filter(execution => execution !== undefined);
+    assert.equal(fills.length, 1);
+    assert.deepEqual(fills[0]!.cancelledOrders.map(order => order.cancellationReason), ["OCO_SIBLING_FILLED"]);
+    assert.equal(await storage.getPosition(user!.id, "TCS", "NSE", "CNC"), undefined);
+  });
+});
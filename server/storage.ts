@@ -1,14 +1,132 @@
-import { users, stocks, orders, positions, trades, type User, type InsertUser, type Stock, type InsertStock, type Order, type InsertOrder, type Position, type InsertPosition, type Trade, type InsertTrade } from "@shared/schema";
+import { users, sessions, stocks, orders, orderModifications, positions, trades, taxLots, watchlists, watchlistItems, priceAlerts, priceAlertTriggers, webhooks, webhookDeliveries, portfolioSnapshots, priceBars, type User, type InsertUser, type Session, type Stock, type InsertStock, type Order, type InsertOrder, type Position, type InsertPosition, type Trade, type InsertTrade, type TaxLot, type PriceBar, type InsertPriceBar, type ChargeBreakdown, type ModifyOrder, type OrderFieldChanges, type OrderModification, type CancellationReason, type Watchlist, type WatchlistItem, type PriceAlert, type InsertPriceAlert, type PriceAlertTrigger, type Webhook, type InsertWebhook, type WebhookDelivery, type PortfolioSnapshot, type InsertPortfolioSnapshot } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, ilike, desc } from "drizzle-orm";
+import { eq, and, or, gt, gte, lte, ilike, asc, desc, isNull, inArray } from "drizzle-orm";
+import { hashPasswordSync } from "./password";
+import { validateFill, computeFill } from "./ledger";
+import { chargesEngine } from "./charges";
+import { chargeSegment } from "./margin";
+import { bracketLegs, stoppedEntryLegs } from "./brackets";
+
+// Fields set by the server rather than the client when creating an order
+export type NewOrder = InsertOrder & {
+  userId: number;
+  parentOrderId?: number;
+  legType?: string;
+  amo?: boolean;
+};
+
+// Alert fields changed by edits and by the background checks
+export type PriceAlertUpdate = Partial<Pick<PriceAlert, "condition" | "threshold" | "referencePrice" | "status">>;
+
+// Webhook fields changed by edits and secret rotation
+export type WebhookUpdate = Partial<Pick<Webhook, "url" | "events" | "active" | "secret">>;
+
+export type NewWebhookDelivery = Pick<WebhookDelivery, "webhookId" | "userId" | "event" | "payload" | "nextAttemptAt">;
+
+// Outcome of one delivery attempt; attempts is incremented alongside
+export type WebhookAttempt = Pick<WebhookDelivery, "status" | "responseStatus" | "lastError" | "nextAttemptAt" | "deliveredAt">;
+
+export interface OrderExecution {
+  order: Order;
+  trade: Trade; // this tranche
+  cancelledOrders: Order[]; // one-cancels-other siblings cancelled by this fill
+  legs: Order[]; // bracket exit legs created because this fill moved the entry to its final state
+}
+
+// An order moved to CANCELLED or EXPIRED, with the exit legs created for what a bracket entry had filled
+export interface FinalizedOrder {
+  order: Order;
+  legs: Order[];
+}
+
+// Orders that can still fill
+const ACTIVE_STATUSES = ["PENDING", "PARTIALLY_FILLED"];
+
+// Postgres SQLSTATE for a unique constraint violation
+const UNIQUE_VIOLATION = "23505";
+
+// Order fields after filling `quantity` more shares at `price`
+function fillProgress(order: Order, quantity: number, price: number, now: Date) {
+  const filledQuantity = order.filledQuantity + quantity;
+  const previousValue = order.filledQuantity * parseFloat(order.averageFillPrice || "0");
+  const averageFillPrice = ((previousValue + quantity * price) / filledQuantity).toFixed(2);
+  const complete = filledQuantity >= order.quantity;
+  const progress = {
+    status: complete ? "EXECUTED" : "PARTIALLY_FILLED",
+    filledQuantity,
+    averageFillPrice,
+    executedPrice: complete ? averageFillPrice : null,
+    executedAt: now
+  };
+
+  // Whatever an IOC order could not fill right away is cancelled with the fill that left it
+  if (!complete && order.validity === "IOC") {
+    return { ...progress, status: "CANCELLED", cancelledAt: now, cancellationReason: "IOC_UNFILLED" };
+  }
+  return progress;
+}
+
+// Charge breakdown as stored on the trades row
+function chargeColumns(charges: ChargeBreakdown) {
+  return {
+    brokerage: charges.brokerage.toFixed(2),
+    stt: charges.stt.toFixed(2),
+    exchangeCharges: charges.exchangeCharges.toFixed(2),
+    sebiFees: charges.sebiFees.toFixed(2),
+    stampDuty: charges.stampDuty.toFixed(2),
+    gst: charges.gst.toFixed(2),
+    dpCharges: charges.dpCharges.toFixed(2),
+    totalCharges: charges.totalCharges.toFixed(2),
+    netAmount: charges.netAmount.toFixed(2)
+  };
+}
+
+const CHARGE_FIELDS = ["brokerage", "stt", "exchangeCharges", "sebiFees", "stampDuty", "gst", "dpCharges"] as const;
+
+// Charges for the next tranche of an order. Per-order items (the brokerage cap, the DP charge on a
+// sell, rounding of STT and stamp duty) apply to the order as a whole, so the order's charges are
+// computed on everything filled so far and the tranche books what its earlier trades have not.
+function trancheCharges(order: Order, bookedTrades: Trade[], quantity: number, price: number): ChargeBreakdown {
+  const bookedQuantity = bookedTrades.reduce((sum, trade) => sum + trade.quantity, 0);
+  const bookedTurnover = bookedTrades.reduce((sum, trade) => sum + parseFloat(trade.totalValue), 0);
+  const totalQuantity = bookedQuantity + quantity;
+  const orderCharges = chargesEngine.calculate({
+    side: order.orderType,
+    quantity: totalQuantity,
+    price: (bookedTurnover + quantity * price) / totalQuantity,
+    exchange: order.exchange,
+    segment: chargeSegment(order.product)
+  });
+
+  const booked = (field: typeof CHARGE_FIELDS[number]) =>
+    bookedTrades.reduce((sum, trade) => sum + parseFloat(trade[field]), 0);
+  const breakdown = Object.fromEntries(
+    CHARGE_FIELDS.map(field => [field, Math.max(0, Math.round((orderCharges[field] - booked(field)) * 100) / 100)])
+  ) as Record<typeof CHARGE_FIELDS[number], number>;
+  const turnover = Math.round(quantity * price * 100) / 100;
+  const totalCharges = Math.round(CHARGE_FIELDS.reduce((sum, field) => sum + breakdown[field], 0) * 100) / 100;
+
+  return {
+    turnover,
+    ...breakdown,
+    totalCharges,
+    netAmount: Math.round((order.orderType === "BUY" ? turnover + totalCharges : turnover - totalCharges) * 100) / 100
+  };
+}
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser): Promise<User | undefined>; // undefined if the username is taken
   updateUserBalance(userId: number, balance: number): Promise<void>;
 
+  // Session operations, keyed by the hash of the bearer token (see hashSessionToken in auth.ts)
+  createSession(userId: number, tokenHash: string, expiresAt: Date): Promise<Session>;
+  getSession(tokenHash: string): Promise<Session | undefined>;
+  deleteSession(tokenHash: string): Promise<void>;
+
   // Stock operations
   getStock(symbol: string, exchange: string): Promise<Stock | undefined>;
   getAllStocks(): Promise<Stock[]>;
@@ -17,16 +135,38 @@ export interface IStorage {
   searchStocks(query: string): Promise<Stock[]>;
 
   // Order operations
-  createOrder(order: InsertOrder & { userId: number }): Promise<Order>;
+  createOrder(order: NewOrder): Promise<Order>;
+  // Create an order only if `check` passes. The check and the insert run under a lock on the account,
+  // so concurrent placements cannot both pass against the same buying power.
+  createOrderIfAllowed<R>(order: NewOrder, check: () => Promise<R | undefined>): Promise<{ order: Order } | { rejection: R }>;
   getOrder(id: number): Promise<Order | undefined>;
   getUserOrders(userId: number): Promise<Order[]>;
+  // Active orders are PENDING or PARTIALLY_FILLED and not past their expiry
   getActiveOrders(userId: number): Promise<Order[]>;
+  getAllActiveOrders(): Promise<Order[]>;
+  expireOrders(now: Date): Promise<FinalizedOrder[]>;
+  getChildOrders(parentOrderId: number): Promise<Order[]>;
   updateOrderStatus(orderId: number, status: string, executedPrice?: number): Promise<void>;
-  cancelOrder(orderId: number): Promise<void>;
+  // Cancel an order that can still fill; undefined if it is already in a final state
+  cancelOrder(orderId: number, reason: CancellationReason): Promise<FinalizedOrder | undefined>;
+  // Apply edits to an order that is still PENDING and record them; undefined if it no longer is
+  modifyOrder(orderId: number, updates: ModifyOrder, changes: OrderFieldChanges): Promise<Order | undefined>;
+  // modifyOrder behind a `check` run under the same account lock as createOrderIfAllowed
+  modifyOrderIfAllowed<R>(orderId: number, updates: ModifyOrder, changes: OrderFieldChanges, check: () => Promise<R | undefined>): Promise<{ order: Order } | { rejection: R } | undefined>;
+  getOrderModifications(orderId: number): Promise<OrderModification[]>;
+  // Arm a pending stop-limit order as a live limit order; undefined if it was not pending or already triggered
+  markOrderTriggered(orderId: number): Promise<Order | undefined>;
+  // Fill up to `quantity` more shares of an active order: order progress, trade, position, balance,
+  // OCO siblings and the exit legs of a completed bracket entry change together or not at all.
+  // An IOC order's unfilled remainder is cancelled by the same fill.
+  // An order the account can no longer cover is marked REJECTED instead.
+  executeOrder(orderId: number, executionPrice: number, quantity: number): Promise<OrderExecution | undefined>;
 
   // Position operations
   getUserPositions(userId: number): Promise<Position[]>;
-  getPosition(userId: number, symbol: string, exchange: string): Promise<Position | undefined>;
+  getPosition(userId: number, symbol: string, exchange: string, product: string): Promise<Position | undefined>;
+  // Open positions across all accounts, e.g. MIS positions due for square-off
+  getPositionsByProduct(product: string): Promise<Position[]>;
   createPosition(position: InsertPosition & { userId: number }): Promise<Position>;
   updatePosition(positionId: number, quantity: number, averagePrice: number): Promise<void>;
   deletePosition(positionId: number): Promise<void>;
@@ -34,31 +174,133 @@ export interface IStorage {
   // Trade operations
   createTrade(trade: InsertTrade & { userId: number }): Promise<Trade>;
   getUserTrades(userId: number): Promise<Trade[]>;
+
+  // Tax lot operations
+  getOpenLots(userId: number, symbol: string, exchange: string, product: string): Promise<TaxLot[]>;
+
+  // Watchlist operations; lists and their items come back in their stored order
+  getWatchlists(userId: number): Promise<Watchlist[]>;
+  getWatchlist(id: number): Promise<Watchlist | undefined>;
+  // Names are unique per user: undefined if the user already has a watchlist with `name` (or, on rename, it is gone)
+  createWatchlist(userId: number, name: string): Promise<Watchlist | undefined>;
+  renameWatchlist(id: number, name: string): Promise<Watchlist | undefined>;
+  deleteWatchlist(id: number): Promise<void>;
+  // `ids` lists the user's watchlists in their new order
+  reorderWatchlists(userId: number, ids: number[]): Promise<void>;
+  getWatchlistItems(watchlistId: number): Promise<WatchlistItem[]>;
+  addWatchlistItem(watchlistId: number, symbol: string, exchange: string): Promise<WatchlistItem>;
+  // False if the instrument was not on the list
+  removeWatchlistItem(watchlistId: number, symbol: string, exchange: string): Promise<boolean>;
+  reorderWatchlistItems(watchlistId: number, ids: number[]): Promise<void>;
+
+  // Price alert operations
+  createPriceAlert(alert: InsertPriceAlert & { userId: number }): Promise<PriceAlert>;
+  getPriceAlert(id: number): Promise<PriceAlert | undefined>;
+  getUserPriceAlerts(userId: number): Promise<PriceAlert[]>;
+  getActivePriceAlerts(): Promise<PriceAlert[]>;
+  updatePriceAlert(id: number, updates: PriceAlertUpdate): Promise<PriceAlert | undefined>;
+  deletePriceAlert(id: number): Promise<void>;
+  // Mark an ACTIVE alert TRIGGERED and record the firing; undefined if it was no longer active
+  triggerPriceAlert(id: number, price: number, changePercent: number): Promise<{ alert: PriceAlert; trigger: PriceAlertTrigger } | undefined>;
+  // Newest first, optionally for one alert
+  getPriceAlertTriggers(userId: number, alertId?: number): Promise<PriceAlertTrigger[]>;
+
+  // Webhook operations
+  createWebhook(webhook: InsertWebhook & { userId: number; secret: string }): Promise<Webhook>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  getUserWebhooks(userId: number): Promise<Webhook[]>;
+  updateWebhook(id: number, updates: WebhookUpdate): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<void>;
+  createWebhookDelivery(delivery: NewWebhookDelivery): Promise<WebhookDelivery>;
+  // Take a due PENDING delivery last seen with `attempts` for one attempt by moving its next attempt to `until`;
+  // undefined if another attempt claimed or recorded it first
+  claimWebhookDelivery(id: number, attempts: number, until: Date): Promise<WebhookDelivery | undefined>;
+  // Record the outcome of the attempt made after `attempts` earlier ones; undefined if the delivery has moved on since
+  recordWebhookAttempt(id: number, attempts: number, attempt: WebhookAttempt): Promise<WebhookDelivery | undefined>;
+  // PENDING deliveries whose next attempt is due
+  getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]>;
+  // Newest first
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+
+  // Portfolio snapshot operations; a user's snapshot for a date is replaced if taken again
+  upsertPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot>;
+  // Oldest first, `from` and `to` inclusive YYYY-MM-DD dates
+  getPortfolioSnapshots(userId: number, from: string, to: string): Promise<PortfolioSnapshot[]>;
+
+  // Price history operations
+  upsertPriceBar(bar: InsertPriceBar): Promise<PriceBar>;
+  getPriceBars(symbol: string, exchange: string, interval: string, from: Date, to: Date): Promise<PriceBar[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private sessions: Map<string, Session>; // key: tokenHash
   private stocks: Map<string, Stock>; // key: symbol-exchange
   private orders: Map<number, Order>;
+  private orderModifications: Map<number, OrderModification>;
   private positions: Map<number, Position>;
   private trades: Map<number, Trade>;
+  private taxLots: Map<number, TaxLot>;
+  private watchlists: Map<number, Watchlist>;
+  private watchlistItems: Map<number, WatchlistItem>;
+  private priceAlerts: Map<number, PriceAlert>;
+  private priceAlertTriggers: Map<number, PriceAlertTrigger>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private portfolioSnapshots: Map<string, PortfolioSnapshot>; // key: userId-date
+  private priceBars: Map<string, PriceBar>; // key: symbol-exchange-interval-startTime
+  private accountLocks: Map<number, Promise<void>>; // key: userId; tail of the order placements queued for it
   private currentUserId: number;
+  private currentSessionId: number;
   private currentOrderId: number;
+  private currentOrderModificationId: number;
   private currentPositionId: number;
   private currentTradeId: number;
+  private currentTaxLotId: number;
   private currentStockId: number;
+  private currentWatchlistId: number;
+  private currentWatchlistItemId: number;
+  private currentPriceAlertId: number;
+  private currentPriceAlertTriggerId: number;
+  private currentWebhookId: number;
+  private currentWebhookDeliveryId: number;
+  private currentPortfolioSnapshotId: number;
+  private currentPriceBarId: number;
 
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
     this.stocks = new Map();
     this.orders = new Map();
+    this.orderModifications = new Map();
     this.positions = new Map();
     this.trades = new Map();
+    this.taxLots = new Map();
+    this.watchlists = new Map();
+    this.watchlistItems = new Map();
+    this.priceAlerts = new Map();
+    this.priceAlertTriggers = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.portfolioSnapshots = new Map();
+    this.priceBars = new Map();
+    this.accountLocks = new Map();
     this.currentUserId = 1;
+    this.currentSessionId = 1;
     this.currentOrderId = 1;
+    this.currentOrderModificationId = 1;
     this.currentPositionId = 1;
     this.currentTradeId = 1;
+    this.currentTaxLotId = 1;
     this.currentStockId = 1;
+    this.currentWatchlistId = 1;
+    this.currentWatchlistItemId = 1;
+    this.currentPriceAlertId = 1;
+    this.currentPriceAlertTriggerId = 1;
+    this.currentWebhookId = 1;
+    this.currentWebhookDeliveryId = 1;
+    this.currentPortfolioSnapshotId = 1;
+    this.currentPriceBarId = 1;
 
     // Initialize with demo user and stocks
     this.initializeDemoData();
@@ -69,7 +311,7 @@ export class MemStorage implements IStorage {
     const demoUser: User = {
       id: 1,
       username: "demo",
-      password: "demo123",
+      password: hashPasswordSync("demo123"),
       balance: "100000.00"
     };
     this.users.set(1, demoUser);
@@ -155,11 +397,17 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(user => user.username === username);
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    if (await this.getUserByUsername(insertUser.username)) return undefined;
+
     const id = this.currentUserId++;
     const user: User = { ...insertUser, id, balance: "100000.00" };
     this.users.set(id, user);
@@ -174,6 +422,22 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // Session operations
+  async createSession(userId: number, tokenHash: string, expiresAt: Date): Promise<Session> {
+    const id = this.currentSessionId++;
+    const session: Session = { id, userId, tokenHash, expiresAt, createdAt: new Date() };
+    this.sessions.set(tokenHash, session);
+    return session;
+  }
+
+  async getSession(tokenHash: string): Promise<Session | undefined> {
+    return this.sessions.get(tokenHash);
+  }
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    this.sessions.delete(tokenHash);
+  }
+
   // Stock operations
   async getStock(symbol: string, exchange: string): Promise<Stock | undefined> {
     return this.stocks.get(`${symbol}-${exchange}`);
@@ -218,7 +482,30 @@ export class MemStorage implements IStorage {
   }
 
   // Order operations
-  async createOrder(order: InsertOrder & { userId: number }): Promise<Order> {
+  async createOrder(order: NewOrder): Promise<Order> {
+    return this.insertOrder(order);
+  }
+
+  async createOrderIfAllowed<R>(order: NewOrder, check: () => Promise<R | undefined>): Promise<{ order: Order } | { rejection: R }> {
+    return await this.withAccountLock(order.userId, async () => {
+      const rejection = await check();
+      return rejection !== undefined ? { rejection } : { order: this.insertOrder(order) };
+    });
+  }
+
+  // Checks await, so placements and edits for one account are chained rather than relying on the event loop
+  private async withAccountLock<T>(userId: number, run: () => Promise<T>): Promise<T> {
+    const previous = this.accountLocks.get(userId) || Promise.resolve();
+    const result = previous.then(run);
+    const settled = result.then(() => undefined, () => undefined);
+    this.accountLocks.set(userId, settled);
+    settled.then(() => {
+      if (this.accountLocks.get(userId) === settled) this.accountLocks.delete(userId);
+    });
+    return await result;
+  }
+
+  private insertOrder(order: NewOrder): Order {
     const id = this.currentOrderId++;
     const newOrder: Order = {
       ...order,
@@ -227,10 +514,25 @@ export class MemStorage implements IStorage {
       executedPrice: null,
       executedAt: null,
       createdAt: new Date(),
+      product: order.product || "CNC",
+      priceType: order.priceType || "LIMIT",
+      limitPrice: order.limitPrice || null,
+      triggerPrice: order.triggerPrice || null,
+      triggeredAt: null,
+      validity: order.validity || "DAY",
+      expiresAt: order.expiresAt || null,
+      amo: order.amo || false,
       takeProfitType: order.takeProfitType || null,
       takeProfitValue: order.takeProfitValue || null,
       stopLossType: order.stopLossType || null,
-      stopLossValue: order.stopLossValue || null
+      stopLossValue: order.stopLossValue || null,
+      parentOrderId: order.parentOrderId || null,
+      legType: order.legType || null,
+      rejectionReason: null,
+      cancelledAt: null,
+      cancellationReason: null,
+      filledQuantity: 0,
+      averageFillPrice: null
     };
     this.orders.set(id, newOrder);
     return newOrder;
@@ -246,9 +548,34 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  private isActive(order: Order, now: Date = new Date()): boolean {
+    return ACTIVE_STATUSES.includes(order.status) && (!order.expiresAt || order.expiresAt > now);
+  }
+
   async getActiveOrders(userId: number): Promise<Order[]> {
     return Array.from(this.orders.values())
-      .filter(order => order.userId === userId && order.status === "PENDING");
+      .filter(order => order.userId === userId && this.isActive(order));
+  }
+
+  async getAllActiveOrders(): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => this.isActive(order));
+  }
+
+  async expireOrders(now: Date): Promise<FinalizedOrder[]> {
+    const expired: FinalizedOrder[] = [];
+    Array.from(this.orders.values()).forEach(order => {
+      if (ACTIVE_STATUSES.includes(order.status) && order.expiresAt && order.expiresAt <= now) {
+        order.status = "EXPIRED";
+        expired.push({ order: { ...order }, legs: this.insertStoppedEntryLegs(order) });
+      }
+    });
+    return expired;
+  }
+
+  async getChildOrders(parentOrderId: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.parentOrderId === parentOrderId);
   }
 
   async updateOrderStatus(orderId: number, status: string, executedPrice?: number): Promise<void> {
@@ -263,12 +590,198 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async cancelOrder(orderId: number): Promise<void> {
+  async cancelOrder(orderId: number, reason: CancellationReason): Promise<FinalizedOrder | undefined> {
     const order = this.orders.get(orderId);
-    if (order) {
-      order.status = "CANCELLED";
-      this.orders.set(orderId, order);
+    if (!order || !ACTIVE_STATUSES.includes(order.status)) return undefined;
+
+    order.status = "CANCELLED";
+    order.cancelledAt = new Date();
+    order.cancellationReason = reason;
+    return { order: { ...order }, legs: this.insertStoppedEntryLegs(order) };
+  }
+
+  private insertStoppedEntryLegs(order: Order): Order[] {
+    const position = Array.from(this.positions.values())
+      .find(position =>
+        position.userId === order.userId &&
+        position.symbol === order.symbol &&
+        position.exchange === order.exchange &&
+        position.product === order.product
+      );
+    return stoppedEntryLegs(order, position ? position.quantity : 0).map(leg => ({ ...this.insertOrder(leg) }));
+  }
+
+  async modifyOrder(orderId: number, updates: ModifyOrder, changes: OrderFieldChanges): Promise<Order | undefined> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== "PENDING") return undefined;
+
+    Object.assign(order, updates);
+    const id = this.currentOrderModificationId++;
+    this.orderModifications.set(id, { id, orderId, userId: order.userId, changes, modifiedAt: new Date() });
+    return { ...order };
+  }
+
+  async modifyOrderIfAllowed<R>(orderId: number, updates: ModifyOrder, changes: OrderFieldChanges, check: () => Promise<R | undefined>): Promise<{ order: Order } | { rejection: R } | undefined> {
+    const order = this.orders.get(orderId);
+    if (!order) return undefined;
+
+    return await this.withAccountLock(order.userId, async () => {
+      if (order.status !== "PENDING") return undefined;
+      const rejection = await check();
+      if (rejection !== undefined) return { rejection };
+      const modified = await this.modifyOrder(orderId, updates, changes);
+      return modified && { order: modified };
+    });
+  }
+
+  async getOrderModifications(orderId: number): Promise<OrderModification[]> {
+    return Array.from(this.orderModifications.values())
+      .filter(modification => modification.orderId === orderId)
+      .sort((a, b) => a.modifiedAt.getTime() - b.modifiedAt.getTime() || a.id - b.id);
+  }
+
+  async markOrderTriggered(orderId: number): Promise<Order | undefined> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== "PENDING" || order.triggeredAt) return undefined;
+
+    order.triggeredAt = new Date();
+    return { ...order };
+  }
+
+  // Runs without awaiting between reading and writing, so no other fill can interleave
+  async executeOrder(orderId: number, executionPrice: number, quantity: number): Promise<OrderExecution | undefined> {
+    const order = this.orders.get(orderId);
+    if (!order || !this.isActive(order)) return undefined;
+
+    const fillQuantity = Math.min(quantity, order.quantity - order.filledQuantity);
+    if (fillQuantity <= 0) return undefined;
+
+    const user = this.users.get(order.userId);
+    const existingPosition = Array.from(this.positions.values())
+      .find(position =>
+        position.userId === order.userId &&
+        position.symbol === order.symbol &&
+        position.exchange === order.exchange &&
+        position.product === order.product
+      );
+
+    const bookedTrades = Array.from(this.trades.values()).filter(trade => trade.orderId === order.id);
+    const charges = trancheCharges(order, bookedTrades, fillQuantity, executionPrice);
+
+    const openLots = Array.from(this.taxLots.values())
+      .filter(lot =>
+        lot.userId === order.userId &&
+        lot.symbol === order.symbol &&
+        lot.exchange === order.exchange &&
+        lot.product === order.product &&
+        lot.remainingQuantity > 0
+      );
+    const fill = computeFill(order, fillQuantity, existingPosition, openLots, executionPrice, charges);
+
+    const rejectionReason = validateFill(order, user, fill);
+    if (rejectionReason) {
+      order.status = "REJECTED";
+      order.rejectionReason = rejectionReason;
+      return undefined;
+    }
+
+    const now = new Date();
+    Object.assign(order, fillProgress(order, fillQuantity, executionPrice, now));
+
+    const trade: Trade = {
+      id: this.currentTradeId++,
+      userId: order.userId,
+      orderId: order.id,
+      symbol: order.symbol,
+      exchange: order.exchange,
+      tradeType: order.orderType,
+      product: order.product,
+      quantity: fillQuantity,
+      price: executionPrice.toFixed(2),
+      totalValue: fill.totalValue.toFixed(2),
+      realizedPnL: fill.realizedPnL === null ? null : fill.realizedPnL.toFixed(2),
+      ...chargeColumns(fill.charges),
+      executedAt: now
+    };
+    this.trades.set(trade.id, trade);
+
+    if (fill.newLot) {
+      const lotId = this.currentTaxLotId++;
+      this.taxLots.set(lotId, {
+        id: lotId,
+        userId: order.userId,
+        symbol: order.symbol,
+        exchange: order.exchange,
+        product: order.product,
+        side: fill.newLot.side,
+        tradeId: trade.id,
+        quantity: fill.newLot.quantity,
+        remainingQuantity: fill.newLot.quantity,
+        price: fill.newLot.price.toFixed(2),
+        acquiredAt: now,
+        closedAt: null
+      });
+    }
+    for (const consumption of fill.consumedLots) {
+      const lot = this.taxLots.get(consumption.lotId)!;
+      lot.remainingQuantity = consumption.remainingQuantity;
+      lot.closedAt = consumption.remainingQuantity === 0 ? now : null;
+    }
+
+    if (fill.position === null && existingPosition) {
+      this.positions.delete(existingPosition.id);
+    } else if (fill.position && existingPosition) {
+      existingPosition.quantity = fill.position.quantity;
+      existingPosition.averagePrice = fill.position.averagePrice.toFixed(2);
+      existingPosition.currentValue = (fill.position.quantity * fill.position.averagePrice).toFixed(2);
+      existingPosition.updatedAt = now;
+    } else if (fill.position) {
+      const id = this.currentPositionId++;
+      this.positions.set(id, {
+        id,
+        userId: order.userId,
+        symbol: order.symbol,
+        exchange: order.exchange,
+        product: order.product,
+        quantity: fill.position.quantity,
+        averagePrice: fill.position.averagePrice.toFixed(2),
+        currentValue: (fill.position.quantity * fill.position.averagePrice).toFixed(2),
+        unrealizedPnL: "0.00",
+        createdAt: now,
+        updatedAt: now
+      });
     }
+
+    if (user && fill.cashDelta !== 0) {
+      user.balance = (parseFloat(user.balance) + fill.cashDelta).toFixed(2);
+    }
+
+    // One-cancels-other: every share an exit leg fills comes off its siblings
+    const cancelledOrders: Order[] = [];
+    if (order.parentOrderId) {
+      Array.from(this.orders.values()).forEach(sibling => {
+        if (sibling.parentOrderId !== order.parentOrderId || sibling.id === order.id || !ACTIVE_STATUSES.includes(sibling.status)) return;
+
+        const remainingQuantity = sibling.quantity - fillQuantity;
+        if (remainingQuantity <= sibling.filledQuantity) {
+          sibling.status = "CANCELLED";
+          sibling.cancelledAt = now;
+          sibling.cancellationReason = "OCO_SIBLING_FILLED";
+          cancelledOrders.push({ ...sibling });
+        } else {
+          sibling.quantity = remainingQuantity;
+        }
+      });
+    }
+
+    let legs: Order[] = [];
+    if (order.status === "EXECUTED") {
+      legs = bracketLegs(order, order.filledQuantity, parseFloat(order.averageFillPrice!)).map(leg => ({ ...this.insertOrder(leg) }));
+    } else if (order.status === "CANCELLED") {
+      legs = this.insertStoppedEntryLegs(order);
+    }
+
+    return { order: { ...order }, trade, cancelledOrders, legs };
   }
 
   // Position operations
@@ -277,20 +790,27 @@ export class MemStorage implements IStorage {
       .filter(position => position.userId === userId);
   }
 
-  async getPosition(userId: number, symbol: string, exchange: string): Promise<Position | undefined> {
+  async getPosition(userId: number, symbol: string, exchange: string, product: string): Promise<Position | undefined> {
     return Array.from(this.positions.values())
       .find(position => 
         position.userId === userId && 
         position.symbol === symbol && 
-        position.exchange === exchange
+        position.exchange === exchange &&
+        position.product === product
       );
   }
 
+  async getPositionsByProduct(product: string): Promise<Position[]> {
+    return Array.from(this.positions.values())
+      .filter(position => position.product === product);
+  }
+
   async createPosition(position: InsertPosition & { userId: number }): Promise<Position> {
     const id = this.currentPositionId++;
     const newPosition: Position = {
       ...position,
       id,
+      product: position.product || "CNC",
       currentValue: (position.quantity * parseFloat(position.averagePrice)).toFixed(2),
       unrealizedPnL: "0.00",
       createdAt: new Date(),
@@ -321,6 +841,17 @@ export class MemStorage implements IStorage {
     const newTrade: Trade = {
       ...trade,
       id,
+      product: trade.product || "CNC",
+      realizedPnL: null,
+      brokerage: "0.00",
+      stt: "0.00",
+      exchangeCharges: "0.00",
+      sebiFees: "0.00",
+      stampDuty: "0.00",
+      gst: "0.00",
+      dpCharges: "0.00",
+      totalCharges: "0.00",
+      netAmount: trade.totalValue,
       executedAt: new Date()
     };
     this.trades.set(id, newTrade);
@@ -332,6 +863,350 @@ export class MemStorage implements IStorage {
       .filter(trade => trade.userId === userId)
       .sort((a, b) => b.executedAt.getTime() - a.executedAt.getTime());
   }
+
+  // Tax lot operations
+  async getOpenLots(userId: number, symbol: string, exchange: string, product: string): Promise<TaxLot[]> {
+    return Array.from(this.taxLots.values())
+      .filter(lot =>
+        lot.userId === userId &&
+        lot.symbol === symbol &&
+        lot.exchange === exchange &&
+        lot.product === product &&
+        lot.remainingQuantity > 0
+      )
+      .sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime() || a.id - b.id);
+  }
+
+  // Watchlist operations
+  async getWatchlists(userId: number): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values())
+      .filter(watchlist => watchlist.userId === userId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getWatchlist(id: number): Promise<Watchlist | undefined> {
+    return this.watchlists.get(id);
+  }
+
+  async createWatchlist(userId: number, name: string): Promise<Watchlist | undefined> {
+    const existing = await this.getWatchlists(userId);
+    if (existing.some(watchlist => watchlist.name === name)) return undefined;
+
+    const id = this.currentWatchlistId++;
+    const now = new Date();
+    const watchlist: Watchlist = {
+      id,
+      userId,
+      name,
+      position: existing.length ? existing[existing.length - 1].position + 1 : 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.watchlists.set(id, watchlist);
+    return watchlist;
+  }
+
+  async renameWatchlist(id: number, name: string): Promise<Watchlist | undefined> {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) return undefined;
+    if ((await this.getWatchlists(watchlist.userId)).some(other => other.id !== id && other.name === name)) return undefined;
+
+    watchlist.name = name;
+    watchlist.updatedAt = new Date();
+    return { ...watchlist };
+  }
+
+  async deleteWatchlist(id: number): Promise<void> {
+    this.watchlists.delete(id);
+    for (const item of Array.from(this.watchlistItems.values())) {
+      if (item.watchlistId === id) this.watchlistItems.delete(item.id);
+    }
+  }
+
+  async reorderWatchlists(userId: number, ids: number[]): Promise<void> {
+    ids.forEach((id, position) => {
+      const watchlist = this.watchlists.get(id);
+      if (watchlist && watchlist.userId === userId) watchlist.position = position;
+    });
+  }
+
+  async getWatchlistItems(watchlistId: number): Promise<WatchlistItem[]> {
+    return Array.from(this.watchlistItems.values())
+      .filter(item => item.watchlistId === watchlistId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async addWatchlistItem(watchlistId: number, symbol: string, exchange: string): Promise<WatchlistItem> {
+    const existing = await this.getWatchlistItems(watchlistId);
+    const id = this.currentWatchlistItemId++;
+    const item: WatchlistItem = {
+      id,
+      watchlistId,
+      symbol,
+      exchange,
+      position: existing.length ? existing[existing.length - 1].position + 1 : 0,
+      addedAt: new Date()
+    };
+    this.watchlistItems.set(id, item);
+    return item;
+  }
+
+  async removeWatchlistItem(watchlistId: number, symbol: string, exchange: string): Promise<boolean> {
+    const item = Array.from(this.watchlistItems.values())
+      .find(item => item.watchlistId === watchlistId && item.symbol === symbol && item.exchange === exchange);
+    if (!item) return false;
+
+    this.watchlistItems.delete(item.id);
+    return true;
+  }
+
+  async reorderWatchlistItems(watchlistId: number, ids: number[]): Promise<void> {
+    ids.forEach((id, position) => {
+      const item = this.watchlistItems.get(id);
+      if (item && item.watchlistId === watchlistId) item.position = position;
+    });
+  }
+
+  // Price alert operations
+  async createPriceAlert(insertAlert: InsertPriceAlert & { userId: number }): Promise<PriceAlert> {
+    const id = this.currentPriceAlertId++;
+    const alert: PriceAlert = {
+      ...insertAlert,
+      id,
+      threshold: insertAlert.threshold || null,
+      referencePrice: null,
+      status: "ACTIVE",
+      createdAt: new Date(),
+      triggeredAt: null
+    };
+    this.priceAlerts.set(id, alert);
+    return alert;
+  }
+
+  async getPriceAlert(id: number): Promise<PriceAlert | undefined> {
+    return this.priceAlerts.get(id);
+  }
+
+  async getUserPriceAlerts(userId: number): Promise<PriceAlert[]> {
+    return Array.from(this.priceAlerts.values())
+      .filter(alert => alert.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    return Array.from(this.priceAlerts.values())
+      .filter(alert => alert.status === "ACTIVE");
+  }
+
+  async updatePriceAlert(id: number, updates: PriceAlertUpdate): Promise<PriceAlert | undefined> {
+    const alert = this.priceAlerts.get(id);
+    if (!alert) return undefined;
+
+    Object.assign(alert, updates);
+    return { ...alert };
+  }
+
+  async deletePriceAlert(id: number): Promise<void> {
+    this.priceAlerts.delete(id);
+  }
+
+  async triggerPriceAlert(id: number, price: number, changePercent: number): Promise<{ alert: PriceAlert; trigger: PriceAlertTrigger } | undefined> {
+    const alert = this.priceAlerts.get(id);
+    if (!alert || alert.status !== "ACTIVE") return undefined;
+
+    const now = new Date();
+    alert.status = "TRIGGERED";
+    alert.triggeredAt = now;
+
+    const triggerId = this.currentPriceAlertTriggerId++;
+    const trigger: PriceAlertTrigger = {
+      id: triggerId,
+      alertId: id,
+      userId: alert.userId,
+      symbol: alert.symbol,
+      exchange: alert.exchange,
+      condition: alert.condition,
+      threshold: alert.threshold,
+      price: price.toFixed(2),
+      changePercent: changePercent.toFixed(2),
+      triggeredAt: now
+    };
+    this.priceAlertTriggers.set(triggerId, trigger);
+    return { alert: { ...alert }, trigger };
+  }
+
+  async getPriceAlertTriggers(userId: number, alertId?: number): Promise<PriceAlertTrigger[]> {
+    return Array.from(this.priceAlertTriggers.values())
+      .filter(trigger => trigger.userId === userId && (alertId === undefined || trigger.alertId === alertId))
+      .sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime() || b.id - a.id);
+  }
+
+  // Webhook operations
+  async createWebhook(insertWebhook: InsertWebhook & { userId: number; secret: string }): Promise<Webhook> {
+    const id = this.currentWebhookId++;
+    const webhook: Webhook = { ...insertWebhook, id, active: true, createdAt: new Date() };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async getUserWebhooks(userId: number): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhook => webhook.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateWebhook(id: number, updates: WebhookUpdate): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) return undefined;
+
+    Object.assign(webhook, updates);
+    return { ...webhook };
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    this.webhooks.delete(id);
+  }
+
+  async createWebhookDelivery(newDelivery: NewWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.currentWebhookDeliveryId++;
+    const delivery: WebhookDelivery = {
+      ...newDelivery,
+      id,
+      status: "PENDING",
+      attempts: 0,
+      responseStatus: null,
+      lastError: null,
+      createdAt: new Date(),
+      deliveredAt: null
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async claimWebhookDelivery(id: number, attempts: number, until: Date): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery || delivery.status !== "PENDING" || delivery.attempts !== attempts) return undefined;
+    if (!delivery.nextAttemptAt || delivery.nextAttemptAt > new Date()) return undefined;
+
+    delivery.nextAttemptAt = until;
+    return { ...delivery };
+  }
+
+  async recordWebhookAttempt(id: number, attempts: number, attempt: WebhookAttempt): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery || delivery.status !== "PENDING" || delivery.attempts !== attempts) return undefined;
+
+    Object.assign(delivery, attempt, { attempts: attempts + 1 });
+    return { ...delivery };
+  }
+
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === "PENDING" && delivery.nextAttemptAt && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === webhookId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // Portfolio snapshot operations
+  async upsertPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const key = `${snapshot.userId}-${snapshot.date}`;
+    const existing = this.portfolioSnapshots.get(key);
+    const saved: PortfolioSnapshot = {
+      ...snapshot,
+      id: existing ? existing.id : this.currentPortfolioSnapshotId++,
+      createdAt: new Date()
+    };
+    this.portfolioSnapshots.set(key, saved);
+    return saved;
+  }
+
+  async getPortfolioSnapshots(userId: number, from: string, to: string): Promise<PortfolioSnapshot[]> {
+    return Array.from(this.portfolioSnapshots.values())
+      .filter(snapshot => snapshot.userId === userId && snapshot.date >= from && snapshot.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Price history operations
+  async upsertPriceBar(bar: InsertPriceBar): Promise<PriceBar> {
+    const key = `${bar.symbol}-${bar.exchange}-${bar.interval}-${bar.startTime.getTime()}`;
+    const existing = this.priceBars.get(key);
+    const saved: PriceBar = {
+      ...bar,
+      id: existing ? existing.id : this.currentPriceBarId++,
+      volume: bar.volume || 0
+    };
+    this.priceBars.set(key, saved);
+    return saved;
+  }
+
+  async getPriceBars(symbol: string, exchange: string, interval: string, from: Date, to: Date): Promise<PriceBar[]> {
+    return Array.from(this.priceBars.values())
+      .filter(bar =>
+        bar.symbol === symbol &&
+        bar.exchange === exchange &&
+        bar.interval === interval &&
+        bar.startTime >= from &&
+        bar.startTime <= to
+      )
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+}
+
+function activeOrderCondition() {
+  return and(
+    inArray(orders.status, ACTIVE_STATUSES),
+    or(isNull(orders.expiresAt), gt(orders.expiresAt, new Date()))
+  );
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Row inserted for a new order, by createOrder and for bracket legs inside other order transactions
+function newOrderRow(order: NewOrder) {
+  return {
+    ...order,
+    status: "PENDING",
+    executedPrice: null,
+    executedAt: null,
+    createdAt: new Date(),
+    takeProfitType: order.takeProfitType || null,
+    takeProfitValue: order.takeProfitValue || null,
+    stopLossType: order.stopLossType || null,
+    stopLossValue: order.stopLossValue || null,
+    parentOrderId: order.parentOrderId || null,
+    legType: order.legType || null
+  };
+}
+
+async function insertStoppedEntryLegs(tx: Transaction, order: Order): Promise<Order[]> {
+  const [position] = await tx
+    .select()
+    .from(positions)
+    .where(
+      and(
+        eq(positions.userId, order.userId),
+        eq(positions.symbol, order.symbol),
+        eq(positions.exchange, order.exchange),
+        eq(positions.product, order.product)
+      )
+    );
+
+  const legs: Order[] = [];
+  for (const leg of stoppedEntryLegs(order, position ? position.quantity : 0)) {
+    const [created] = await tx.insert(orders).values(newOrderRow(leg)).returning();
+    legs.push(created);
+  }
+  return legs;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -340,17 +1215,23 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    // Concurrent registrations of one username race past the route's lookup; the unique index decides
     const [user] = await db
       .insert(users)
       .values(insertUser)
+      .onConflictDoNothing({ target: users.username })
       .returning();
-    return user;
+    return user || undefined;
   }
 
   async updateUserBalance(userId: number, balance: number): Promise<void> {
@@ -360,6 +1241,23 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
+  async createSession(userId: number, tokenHash: string, expiresAt: Date): Promise<Session> {
+    const [session] = await db
+      .insert(sessions)
+      .values({ userId, tokenHash, expiresAt })
+      .returning();
+    return session;
+  }
+
+  async getSession(tokenHash: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.tokenHash, tokenHash));
+    return session || undefined;
+  }
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.tokenHash, tokenHash));
+  }
+
   async getStock(symbol: string, exchange: string): Promise<Stock | undefined> {
     const [stock] = await db
       .select()
@@ -410,24 +1308,35 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async createOrder(order: InsertOrder & { userId: number }): Promise<Order> {
+  async createOrder(order: NewOrder): Promise<Order> {
     const [newOrder] = await db
       .insert(orders)
-      .values({
-        ...order,
-        status: "PENDING",
-        executedPrice: null,
-        executedAt: null,
-        createdAt: new Date(),
-        takeProfitType: order.takeProfitType || null,
-        takeProfitValue: order.takeProfitValue || null,
-        stopLossType: order.stopLossType || null,
-        stopLossValue: order.stopLossValue || null
-      })
+      .values(newOrderRow(order))
       .returning();
     return newOrder;
   }
 
+  // The user row lock is the one executeOrder takes, so a placement also waits for fills in flight.
+  // The check reads through other connections, which see whatever the previous lock holder committed.
+  async createOrderIfAllowed<R>(order: NewOrder, check: () => Promise<R | undefined>): Promise<{ order: Order } | { rejection: R }> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, order.userId))
+        .for("update");
+
+      const rejection = await check();
+      if (rejection !== undefined) return { rejection };
+
+      const [newOrder] = await tx
+        .insert(orders)
+        .values(newOrderRow(order))
+        .returning();
+      return { order: newOrder };
+    });
+  }
+
   async getOrder(id: number): Promise<Order | undefined> {
     const [order] = await db.select().from(orders).where(eq(orders.id, id));
     return order || undefined;
@@ -445,7 +1354,37 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(orders)
-      .where(and(eq(orders.userId, userId), eq(orders.status, "PENDING")));
+      .where(and(eq(orders.userId, userId), activeOrderCondition()));
+  }
+
+  async getAllActiveOrders(): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(activeOrderCondition());
+  }
+
+  async expireOrders(now: Date): Promise<FinalizedOrder[]> {
+    return await db.transaction(async (tx) => {
+      const expiredOrders = await tx
+        .update(orders)
+        .set({ status: "EXPIRED" })
+        .where(and(inArray(orders.status, ACTIVE_STATUSES), lte(orders.expiresAt, now)))
+        .returning();
+
+      const expired: FinalizedOrder[] = [];
+      for (const order of expiredOrders) {
+        expired.push({ order, legs: await insertStoppedEntryLegs(tx, order) });
+      }
+      return expired;
+    });
+  }
+
+  async getChildOrders(parentOrderId: number): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(eq(orders.parentOrderId, parentOrderId));
   }
 
   async updateOrderStatus(orderId: number, status: string, executedPrice?: number): Promise<void> {
@@ -459,11 +1398,277 @@ export class DatabaseStorage implements IStorage {
       .where(eq(orders.id, orderId));
   }
 
-  async cancelOrder(orderId: number): Promise<void> {
-    await db
+  async cancelOrder(orderId: number, reason: CancellationReason): Promise<FinalizedOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set({ status: "CANCELLED", cancelledAt: new Date(), cancellationReason: reason })
+        .where(and(eq(orders.id, orderId), inArray(orders.status, ACTIVE_STATUSES)))
+        .returning();
+      if (!order) return undefined;
+
+      return { order, legs: await insertStoppedEntryLegs(tx, order) };
+    });
+  }
+
+  async modifyOrder(orderId: number, updates: ModifyOrder, changes: OrderFieldChanges): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set(updates)
+        .where(and(eq(orders.id, orderId), eq(orders.status, "PENDING")))
+        .returning();
+      if (!order) return undefined;
+
+      await tx.insert(orderModifications).values({ orderId, userId: order.userId, changes });
+      return order;
+    });
+  }
+
+  // Locks the order and then the user row, the order executeOrder takes them in, so an edit
+  // waits for fills in flight and is serialized with placements in createOrderIfAllowed
+  async modifyOrderIfAllowed<R>(orderId: number, updates: ModifyOrder, changes: OrderFieldChanges, check: () => Promise<R | undefined>): Promise<{ order: Order } | { rejection: R } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      if (!order || order.status !== "PENDING") return undefined;
+
+      await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, order.userId))
+        .for("update");
+
+      const rejection = await check();
+      if (rejection !== undefined) return { rejection };
+
+      const [modified] = await tx
+        .update(orders)
+        .set(updates)
+        .where(eq(orders.id, orderId))
+        .returning();
+      await tx.insert(orderModifications).values({ orderId, userId: order.userId, changes });
+      return { order: modified };
+    });
+  }
+
+  async getOrderModifications(orderId: number): Promise<OrderModification[]> {
+    return await db
+      .select()
+      .from(orderModifications)
+      .where(eq(orderModifications.orderId, orderId))
+      .orderBy(asc(orderModifications.modifiedAt), asc(orderModifications.id));
+  }
+
+  async markOrderTriggered(orderId: number): Promise<Order | undefined> {
+    const [order] = await db
       .update(orders)
-      .set({ status: "CANCELLED" })
-      .where(eq(orders.id, orderId));
+      .set({ triggeredAt: new Date() })
+      .where(and(eq(orders.id, orderId), eq(orders.status, "PENDING"), isNull(orders.triggeredAt)))
+      .returning();
+    return order || undefined;
+  }
+
+  // Locks are always taken in order -> user -> position. The user lock serializes
+  // concurrent fills for the same account, including ones that create a new position.
+  // An exit leg cancels its siblings, so all active legs of its bracket are locked up front,
+  // in id order; locking siblings after the user row deadlocks two legs filling at once.
+  async executeOrder(orderId: number, executionPrice: number, quantity: number): Promise<OrderExecution | undefined> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx
+        .select({ parentOrderId: orders.parentOrderId })
+        .from(orders)
+        .where(eq(orders.id, orderId));
+      if (!target) return undefined;
+
+      const lockedOrders = await tx
+        .select()
+        .from(orders)
+        .where(
+          target.parentOrderId
+            ? and(
+                eq(orders.parentOrderId, target.parentOrderId),
+                or(eq(orders.id, orderId), inArray(orders.status, ACTIVE_STATUSES))
+              )
+            : eq(orders.id, orderId)
+        )
+        .orderBy(asc(orders.id))
+        .for("update");
+      const order = lockedOrders.find(locked => locked.id === orderId);
+      if (!order || !ACTIVE_STATUSES.includes(order.status)) return undefined;
+      if (order.expiresAt && order.expiresAt <= new Date()) return undefined;
+
+      const fillQuantity = Math.min(quantity, order.quantity - order.filledQuantity);
+      if (fillQuantity <= 0) return undefined;
+
+      const [user] = await tx
+        .select()
+        .from(users)
+        .where(eq(users.id, order.userId))
+        .for("update");
+
+      const [existingPosition] = await tx
+        .select()
+        .from(positions)
+        .where(
+          and(
+            eq(positions.userId, order.userId),
+            eq(positions.symbol, order.symbol),
+            eq(positions.exchange, order.exchange),
+            eq(positions.product, order.product)
+          )
+        )
+        .for("update");
+
+      // The order row lock keeps its booked trades stable
+      const bookedTrades = await tx.select().from(trades).where(eq(trades.orderId, order.id));
+      const charges = trancheCharges(order, bookedTrades, fillQuantity, executionPrice);
+
+      const openLots = await tx
+        .select()
+        .from(taxLots)
+        .where(
+          and(
+            eq(taxLots.userId, order.userId),
+            eq(taxLots.symbol, order.symbol),
+            eq(taxLots.exchange, order.exchange),
+            eq(taxLots.product, order.product),
+            gt(taxLots.remainingQuantity, 0)
+          )
+        )
+        .for("update");
+
+      const fill = computeFill(order, fillQuantity, existingPosition, openLots, executionPrice, charges);
+
+      const rejectionReason = validateFill(order, user, fill);
+      if (rejectionReason) {
+        await tx
+          .update(orders)
+          .set({ status: "REJECTED", rejectionReason })
+          .where(eq(orders.id, orderId));
+        return undefined;
+      }
+
+      const now = new Date();
+
+      const [executedOrder] = await tx
+        .update(orders)
+        .set(fillProgress(order, fillQuantity, executionPrice, now))
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      const [trade] = await tx
+        .insert(trades)
+        .values({
+          userId: order.userId,
+          orderId: order.id,
+          symbol: order.symbol,
+          exchange: order.exchange,
+          tradeType: order.orderType,
+          product: order.product,
+          quantity: fillQuantity,
+          price: executionPrice.toFixed(2),
+          totalValue: fill.totalValue.toFixed(2),
+          realizedPnL: fill.realizedPnL === null ? null : fill.realizedPnL.toFixed(2),
+          ...chargeColumns(fill.charges),
+          executedAt: now
+        })
+        .returning();
+
+      if (fill.newLot) {
+        await tx.insert(taxLots).values({
+          userId: order.userId,
+          symbol: order.symbol,
+          exchange: order.exchange,
+          product: order.product,
+          side: fill.newLot.side,
+          tradeId: trade.id,
+          quantity: fill.newLot.quantity,
+          remainingQuantity: fill.newLot.quantity,
+          price: fill.newLot.price.toFixed(2),
+          acquiredAt: now
+        });
+      }
+      for (const consumption of fill.consumedLots) {
+        await tx
+          .update(taxLots)
+          .set({
+            remainingQuantity: consumption.remainingQuantity,
+            closedAt: consumption.remainingQuantity === 0 ? now : null
+          })
+          .where(eq(taxLots.id, consumption.lotId));
+      }
+
+      if (fill.position === null && existingPosition) {
+        await tx.delete(positions).where(eq(positions.id, existingPosition.id));
+      } else if (fill.position && existingPosition) {
+        await tx
+          .update(positions)
+          .set({
+            quantity: fill.position.quantity,
+            averagePrice: fill.position.averagePrice.toFixed(2),
+            currentValue: (fill.position.quantity * fill.position.averagePrice).toFixed(2),
+            updatedAt: now
+          })
+          .where(eq(positions.id, existingPosition.id));
+      } else if (fill.position) {
+        await tx.insert(positions).values({
+          userId: order.userId,
+          symbol: order.symbol,
+          exchange: order.exchange,
+          product: order.product,
+          quantity: fill.position.quantity,
+          averagePrice: fill.position.averagePrice.toFixed(2),
+          currentValue: (fill.position.quantity * fill.position.averagePrice).toFixed(2),
+          unrealizedPnL: "0.00",
+          createdAt: now,
+          updatedAt: now
+        });
+      }
+
+      if (user && fill.cashDelta !== 0) {
+        await tx
+          .update(users)
+          .set({ balance: (parseFloat(user.balance) + fill.cashDelta).toFixed(2) })
+          .where(eq(users.id, user.id));
+      }
+
+      // One-cancels-other: every share an exit leg fills comes off its siblings
+      const cancelledOrders: Order[] = [];
+      if (order.parentOrderId) {
+        const siblings = lockedOrders.filter(
+          locked => locked.id !== order.id && ACTIVE_STATUSES.includes(locked.status)
+        );
+
+        for (const sibling of siblings) {
+          const remainingQuantity = sibling.quantity - fillQuantity;
+          const cancelled = remainingQuantity <= sibling.filledQuantity;
+          const [updated] = await tx
+            .update(orders)
+            .set(cancelled
+              ? { status: "CANCELLED", cancelledAt: now, cancellationReason: "OCO_SIBLING_FILLED" }
+              : { quantity: remainingQuantity })
+            .where(eq(orders.id, sibling.id))
+            .returning();
+          if (cancelled) cancelledOrders.push(updated);
+        }
+      }
+
+      let legs: Order[] = [];
+      if (executedOrder.status === "EXECUTED") {
+        for (const leg of bracketLegs(executedOrder, executedOrder.filledQuantity, parseFloat(executedOrder.averageFillPrice!))) {
+          const [created] = await tx.insert(orders).values(newOrderRow(leg)).returning();
+          legs.push(created);
+        }
+      } else if (executedOrder.status === "CANCELLED") {
+        legs = await insertStoppedEntryLegs(tx, executedOrder);
+      }
+
+      return { order: executedOrder, trade, cancelledOrders, legs };
+    });
   }
 
   async getUserPositions(userId: number): Promise<Position[]> {
@@ -473,7 +1678,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(positions.userId, userId));
   }
 
-  async getPosition(userId: number, symbol: string, exchange: string): Promise<Position | undefined> {
+  async getPosition(userId: number, symbol: string, exchange: string, product: string): Promise<Position | undefined> {
     const [position] = await db
       .select()
       .from(positions)
@@ -481,12 +1686,20 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(positions.userId, userId),
           eq(positions.symbol, symbol),
-          eq(positions.exchange, exchange)
+          eq(positions.exchange, exchange),
+          eq(positions.product, product)
         )
       );
     return position || undefined;
   }
 
+  async getPositionsByProduct(product: string): Promise<Position[]> {
+    return await db
+      .select()
+      .from(positions)
+      .where(eq(positions.product, product));
+  }
+
   async createPosition(position: InsertPosition & { userId: number }): Promise<Position> {
     const [newPosition] = await db
       .insert(positions)
@@ -535,6 +1748,370 @@ export class DatabaseStorage implements IStorage {
       .where(eq(trades.userId, userId))
       .orderBy(desc(trades.executedAt));
   }
+
+  async getOpenLots(userId: number, symbol: string, exchange: string, product: string): Promise<TaxLot[]> {
+    return await db
+      .select()
+      .from(taxLots)
+      .where(
+        and(
+          eq(taxLots.userId, userId),
+          eq(taxLots.symbol, symbol),
+          eq(taxLots.exchange, exchange),
+          eq(taxLots.product, product),
+          gt(taxLots.remainingQuantity, 0)
+        )
+      )
+      .orderBy(asc(taxLots.acquiredAt), asc(taxLots.id));
+  }
+
+  async getWatchlists(userId: number): Promise<Watchlist[]> {
+    return await db
+      .select()
+      .from(watchlists)
+      .where(eq(watchlists.userId, userId))
+      .orderBy(asc(watchlists.position), asc(watchlists.id));
+  }
+
+  async getWatchlist(id: number): Promise<Watchlist | undefined> {
+    const [watchlist] = await db.select().from(watchlists).where(eq(watchlists.id, id));
+    return watchlist || undefined;
+  }
+
+  async createWatchlist(userId: number, name: string): Promise<Watchlist | undefined> {
+    const [last] = await db
+      .select({ position: watchlists.position })
+      .from(watchlists)
+      .where(eq(watchlists.userId, userId))
+      .orderBy(desc(watchlists.position))
+      .limit(1);
+    const [watchlist] = await db
+      .insert(watchlists)
+      .values({ userId, name, position: last ? last.position + 1 : 0 })
+      .onConflictDoNothing({ target: [watchlists.userId, watchlists.name] })
+      .returning();
+    return watchlist || undefined;
+  }
+
+  async renameWatchlist(id: number, name: string): Promise<Watchlist | undefined> {
+    try {
+      const [watchlist] = await db
+        .update(watchlists)
+        .set({ name, updatedAt: new Date() })
+        .where(eq(watchlists.id, id))
+        .returning();
+      return watchlist || undefined;
+    } catch (error: any) {
+      // An UPDATE has no ON CONFLICT, so a name taken concurrently surfaces as a unique violation
+      if (error.code === UNIQUE_VIOLATION) return undefined;
+      throw error;
+    }
+  }
+
+  async deleteWatchlist(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(watchlistItems).where(eq(watchlistItems.watchlistId, id));
+      await tx.delete(watchlists).where(eq(watchlists.id, id));
+    });
+  }
+
+  async reorderWatchlists(userId: number, ids: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [position, id] of ids.entries()) {
+        await tx
+          .update(watchlists)
+          .set({ position })
+          .where(and(eq(watchlists.id, id), eq(watchlists.userId, userId)));
+      }
+    });
+  }
+
+  async getWatchlistItems(watchlistId: number): Promise<WatchlistItem[]> {
+    return await db
+      .select()
+      .from(watchlistItems)
+      .where(eq(watchlistItems.watchlistId, watchlistId))
+      .orderBy(asc(watchlistItems.position), asc(watchlistItems.id));
+  }
+
+  async addWatchlistItem(watchlistId: number, symbol: string, exchange: string): Promise<WatchlistItem> {
+    const [last] = await db
+      .select({ position: watchlistItems.position })
+      .from(watchlistItems)
+      .where(eq(watchlistItems.watchlistId, watchlistId))
+      .orderBy(desc(watchlistItems.position))
+      .limit(1);
+    const [item] = await db
+      .insert(watchlistItems)
+      .values({ watchlistId, symbol, exchange, position: last ? last.position + 1 : 0 })
+      .returning();
+    return item;
+  }
+
+  async removeWatchlistItem(watchlistId: number, symbol: string, exchange: string): Promise<boolean> {
+    const removed = await db
+      .delete(watchlistItems)
+      .where(
+        and(
+          eq(watchlistItems.watchlistId, watchlistId),
+          eq(watchlistItems.symbol, symbol),
+          eq(watchlistItems.exchange, exchange)
+        )
+      )
+      .returning();
+    return removed.length > 0;
+  }
+
+  async reorderWatchlistItems(watchlistId: number, ids: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [position, id] of ids.entries()) {
+        await tx
+          .update(watchlistItems)
+          .set({ position })
+          .where(and(eq(watchlistItems.id, id), eq(watchlistItems.watchlistId, watchlistId)));
+      }
+    });
+  }
+
+  async createPriceAlert(insertAlert: InsertPriceAlert & { userId: number }): Promise<PriceAlert> {
+    const [alert] = await db
+      .insert(priceAlerts)
+      .values(insertAlert)
+      .returning();
+    return alert;
+  }
+
+  async getPriceAlert(id: number): Promise<PriceAlert | undefined> {
+    const [alert] = await db.select().from(priceAlerts).where(eq(priceAlerts.id, id));
+    return alert || undefined;
+  }
+
+  async getUserPriceAlerts(userId: number): Promise<PriceAlert[]> {
+    return await db
+      .select()
+      .from(priceAlerts)
+      .where(eq(priceAlerts.userId, userId))
+      .orderBy(desc(priceAlerts.createdAt), desc(priceAlerts.id));
+  }
+
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    return await db.select().from(priceAlerts).where(eq(priceAlerts.status, "ACTIVE"));
+  }
+
+  async updatePriceAlert(id: number, updates: PriceAlertUpdate): Promise<PriceAlert | undefined> {
+    const [alert] = await db
+      .update(priceAlerts)
+      .set(updates)
+      .where(eq(priceAlerts.id, id))
+      .returning();
+    return alert || undefined;
+  }
+
+  async deletePriceAlert(id: number): Promise<void> {
+    await db.delete(priceAlerts).where(eq(priceAlerts.id, id));
+  }
+
+  async triggerPriceAlert(id: number, price: number, changePercent: number): Promise<{ alert: PriceAlert; trigger: PriceAlertTrigger } | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [alert] = await tx
+        .update(priceAlerts)
+        .set({ status: "TRIGGERED", triggeredAt: now })
+        .where(and(eq(priceAlerts.id, id), eq(priceAlerts.status, "ACTIVE")))
+        .returning();
+      if (!alert) return undefined;
+
+      const [trigger] = await tx
+        .insert(priceAlertTriggers)
+        .values({
+          alertId: id,
+          userId: alert.userId,
+          symbol: alert.symbol,
+          exchange: alert.exchange,
+          condition: alert.condition,
+          threshold: alert.threshold,
+          price: price.toFixed(2),
+          changePercent: changePercent.toFixed(2),
+          triggeredAt: now
+        })
+        .returning();
+      return { alert, trigger };
+    });
+  }
+
+  async getPriceAlertTriggers(userId: number, alertId?: number): Promise<PriceAlertTrigger[]> {
+    return await db
+      .select()
+      .from(priceAlertTriggers)
+      .where(
+        alertId === undefined
+          ? eq(priceAlertTriggers.userId, userId)
+          : and(eq(priceAlertTriggers.userId, userId), eq(priceAlertTriggers.alertId, alertId))
+      )
+      .orderBy(desc(priceAlertTriggers.triggeredAt), desc(priceAlertTriggers.id));
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook & { userId: number; secret: string }): Promise<Webhook> {
+    const [webhook] = await db
+      .insert(webhooks)
+      .values(insertWebhook)
+      .returning();
+    return webhook;
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async getUserWebhooks(userId: number): Promise<Webhook[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(asc(webhooks.id));
+  }
+
+  async updateWebhook(id: number, updates: WebhookUpdate): Promise<Webhook | undefined> {
+    const [webhook] = await db
+      .update(webhooks)
+      .set(updates)
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook || undefined;
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    await db.delete(webhooks).where(eq(webhooks.id, id));
+  }
+
+  async createWebhookDelivery(newDelivery: NewWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values(newDelivery)
+      .returning();
+    return delivery;
+  }
+
+  async claimWebhookDelivery(id: number, attempts: number, until: Date): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: until })
+      .where(
+        and(
+          eq(webhookDeliveries.id, id),
+          eq(webhookDeliveries.status, "PENDING"),
+          eq(webhookDeliveries.attempts, attempts),
+          lte(webhookDeliveries.nextAttemptAt, new Date())
+        )
+      )
+      .returning();
+    return delivery || undefined;
+  }
+
+  async recordWebhookAttempt(id: number, attempts: number, attempt: WebhookAttempt): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ ...attempt, attempts: attempts + 1 })
+      .where(
+        and(
+          eq(webhookDeliveries.id, id),
+          eq(webhookDeliveries.status, "PENDING"),
+          eq(webhookDeliveries.attempts, attempts)
+        )
+      )
+      .returning();
+    return delivery || undefined;
+  }
+
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "PENDING"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.id));
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async upsertPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const { userId, date, ...values } = snapshot;
+    const [saved] = await db
+      .insert(portfolioSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: [portfolioSnapshots.userId, portfolioSnapshots.date],
+        set: { ...values, createdAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getPortfolioSnapshots(userId: number, from: string, to: string): Promise<PortfolioSnapshot[]> {
+    return await db
+      .select()
+      .from(portfolioSnapshots)
+      .where(
+        and(
+          eq(portfolioSnapshots.userId, userId),
+          gte(portfolioSnapshots.date, from),
+          lte(portfolioSnapshots.date, to)
+        )
+      )
+      .orderBy(asc(portfolioSnapshots.date));
+  }
+
+  async upsertPriceBar(bar: InsertPriceBar): Promise<PriceBar> {
+    const [saved] = await db
+      .insert(priceBars)
+      .values(bar)
+      .onConflictDoUpdate({
+        target: [priceBars.symbol, priceBars.exchange, priceBars.interval, priceBars.startTime],
+        set: { open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume || 0 }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getPriceBars(symbol: string, exchange: string, interval: string, from: Date, to: Date): Promise<PriceBar[]> {
+    return await db
+      .select()
+      .from(priceBars)
+      .where(
+        and(
+          eq(priceBars.symbol, symbol),
+          eq(priceBars.exchange, exchange),
+          eq(priceBars.interval, interval),
+          gte(priceBars.startTime, from),
+          lte(priceBars.startTime, to)
+        )
+      )
+      .orderBy(asc(priceBars.startTime));
+  }
+}
+
+// STORAGE=memory or STORAGE=database; defaults to the database when DATABASE_URL is set.
+// In-memory storage lets the server run offline, e.g. with MARKET_DATA_PROVIDERS=simulated in tests.
+function createStorage(): IStorage {
+  const backend = (process.env.STORAGE || (process.env.DATABASE_URL ? "database" : "memory")).toLowerCase();
+  if (backend === "memory") {
+    console.warn("Using in-memory storage; data is lost when the server stops");
+    return new MemStorage();
+  }
+  if (backend !== "database") {
+    throw new Error(`Unknown storage "${backend}". Available: database, memory`);
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
@@ -0,0 +1,162 @@
+// NSE/BSE trade on Indian Standard Time, which has no daylight saving
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Session boundaries in minutes after IST midnight
+const PRE_OPEN_START = 9 * 60; // 09:00
+const SESSION_OPEN = 9 * 60 + 15; // 09:15
+const SESSION_CLOSE = 15 * 60 + 30; // 15:30
+const POST_CLOSE_END = 16 * 60; // 16:00
+
+// Open intraday (MIS) positions are squared off from this time, MIS_SQUARE_OFF_TIME as HH:MM IST
+function parseSquareOffTime(value: string | undefined): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || "");
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : 15 * 60 + 20;
+}
+const MIS_SQUARE_OFF = parseSquareOffTime(process.env.MIS_SQUARE_OFF_TIME);
+
+// Exchange holidays that fall on the same date every year (MM-DD)
+const FIXED_HOLIDAYS = ["01-26", "05-01", "08-15", "10-02", "12-25"];
+
+// Holidays that move each year come from MARKET_HOLIDAYS, a comma-separated list of YYYY-MM-DD dates
+const configuredHolidays = new Set(
+  (process.env.MARKET_HOLIDAYS || "")
+    .split(",")
+    .map(date => date.trim())
+    .filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date))
+);
+
+export type MarketSession = "PRE_OPEN" | "OPEN" | "POST_CLOSE" | "CLOSED";
+
+export interface MarketStatus {
+  session: MarketSession;
+  isOpen: boolean;
+  isTradingDay: boolean;
+  closedReason: "WEEKEND" | "HOLIDAY" | null;
+  istTime: string;
+  nextOpen: Date;
+  nextClose: Date;
+}
+
+// Shift a UTC instant so its UTC fields read as IST wall-clock time
+function toIstClock(date: Date): Date {
+  return new Date(date.getTime() + IST_OFFSET_MS);
+}
+
+function fromIstClock(clock: Date): Date {
+  return new Date(clock.getTime() - IST_OFFSET_MS);
+}
+
+function istDateKey(clock: Date): string {
+  return clock.toISOString().slice(0, 10);
+}
+
+function isWeekend(clock: Date): boolean {
+  const day = clock.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+function isHoliday(clock: Date): boolean {
+  const dateKey = istDateKey(clock);
+  return configuredHolidays.has(dateKey) || FIXED_HOLIDAYS.includes(dateKey.slice(5));
+}
+
+function isTradingClockDay(clock: Date): boolean {
+  return !isWeekend(clock) && !isHoliday(clock);
+}
+
+// IST midnight of the calendar day containing `at`
+export function istDayStart(at: Date): Date {
+  const clock = toIstClock(at);
+  clock.setUTCHours(0, 0, 0, 0);
+  return fromIstClock(clock);
+}
+
+export function isTradingDay(at: Date = new Date()): boolean {
+  return isTradingClockDay(toIstClock(at));
+}
+
+// IST calendar date of `at` as YYYY-MM-DD
+export function istDate(at: Date = new Date()): string {
+  return istDateKey(toIstClock(at));
+}
+
+// IST wall-clock time of `at` as YYYY-MM-DD HH:MM:SS
+export function istTimestamp(at: Date): string {
+  return toIstClock(at).toISOString().slice(0, 19).replace("T", " ");
+}
+
+// Trading dates (YYYY-MM-DD) from `from` to `to`, both inclusive
+export function tradingDatesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (const clock = new Date(`${from}T00:00:00Z`); istDateKey(clock) <= to; clock.setUTCDate(clock.getUTCDate() + 1)) {
+    if (isTradingClockDay(clock)) dates.push(istDateKey(clock));
+  }
+  return dates;
+}
+
+// The first trading-day instant at `minutes` past IST midnight that is at or after `from`
+function nextSessionBoundary(from: Date, minutes: number): Date {
+  const clock = toIstClock(from);
+  clock.setUTCHours(0, minutes, 0, 0);
+
+  while (!isTradingClockDay(clock) || fromIstClock(clock).getTime() < from.getTime()) {
+    clock.setUTCDate(clock.getUTCDate() + 1);
+  }
+
+  return fromIstClock(clock);
+}
+
+export function nextSessionOpen(from: Date = new Date()): Date {
+  return nextSessionBoundary(from, SESSION_OPEN);
+}
+
+// The first session close at or after `from`
+export function nextSessionClose(from: Date = new Date()): Date {
+  return nextSessionBoundary(from, SESSION_CLOSE);
+}
+
+export function getMarketStatus(at: Date = new Date()): MarketStatus {
+  const clock = toIstClock(at);
+  const minutes = clock.getUTCHours() * 60 + clock.getUTCMinutes();
+  const tradingDay = isTradingClockDay(clock);
+
+  let session: MarketSession = "CLOSED";
+  if (tradingDay) {
+    if (minutes >= PRE_OPEN_START && minutes < SESSION_OPEN) {
+      session = "PRE_OPEN";
+    } else if (minutes >= SESSION_OPEN && minutes < SESSION_CLOSE) {
+      session = "OPEN";
+    } else if (minutes >= SESSION_CLOSE && minutes < POST_CLOSE_END) {
+      session = "POST_CLOSE";
+    }
+  }
+
+  return {
+    session,
+    isOpen: session === "OPEN",
+    isTradingDay: tradingDay,
+    closedReason: tradingDay ? null : isWeekend(clock) ? "WEEKEND" : "HOLIDAY",
+    istTime: clock.toISOString().replace("Z", "+05:30"),
+    nextOpen: nextSessionOpen(at),
+    nextClose: nextSessionClose(at)
+  };
+}
+
+// From the MIS cut-off until the close, intraday positions are closed out and new MIS orders refused
+export function isSquareOffWindow(at: Date = new Date()): boolean {
+  const clock = toIstClock(at);
+  const minutes = clock.getUTCHours() * 60 + clock.getUTCMinutes();
+  return isTradingClockDay(clock) && minutes >= MIS_SQUARE_OFF && minutes < SESSION_CLOSE;
+}
+
+// After the close of a trading day, when its end-of-day state is final
+export function isAfterSessionClose(at: Date = new Date()): boolean {
+  const clock = toIstClock(at);
+  const minutes = clock.getUTCHours() * 60 + clock.getUTCMinutes();
+  return isTradingClockDay(clock) && minutes >= SESSION_CLOSE;
+}
+
+// Orders are only matched during the continuous trading session
+export function isMarketOpen(at: Date = new Date()): boolean {
+  return getMarketStatus(at).isOpen;
+}
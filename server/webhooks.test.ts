@@ -0,0 +1,106 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+import { storage } from "./storage";
+
+// Runs like storage.test.ts, against in-memory storage (leave DATABASE_URL unset or set STORAGE=memory)
+
+// Read when the module loads, so it is imported only once these are set
+process.env.WEBHOOK_RETRY_BASE_MS = "20";
+process.env.WEBHOOK_ALLOW_LOOPBACK = "true";
+const { attemptDelivery, generateWebhookSecret, retryDelay, sendWebhookEvent, signPayload } = await import("./webhooks");
+
+const DEMO_USER_ID = 1;
+
+// A local receiver that records each request and answers with the queued statuses, then 200
+const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+const statuses: number[] = [];
+const receiver = createServer((req, res) => {
+  let body = "";
+  req.on("data", chunk => body += chunk);
+  req.on("end", () => {
+    received.push({ headers: req.headers, body });
+    res.statusCode = statuses.shift() ?? 200;
+    res.end();
+  });
+});
+let receiverUrl: string;
+
+before(async () => {
+  await new Promise<void>(resolve => receiver.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+});
+
+after(() => {
+  receiver.close();
+});
+
+beforeEach(() => {
+  received.length = 0;
+  statuses.length = 0;
+});
+
+function createWebhook(url: string) {
+  return storage.createWebhook({ userId: DEMO_USER_ID, url, events: ["order.placed"], secret: generateWebhookSecret() });
+}
+
+test("a delivery is POSTed with an HMAC signature over its timestamp and body", async () => {
+  const webhook = await createWebhook(receiverUrl);
+
+  const delivery = await sendWebhookEvent(webhook, "ping", { hello: "world" });
+  assert.equal(delivery!.status, "SUCCEEDED");
+  assert.equal(delivery!.attempts, 1);
+  assert.equal(delivery!.responseStatus, 200);
+
+  assert.equal(received.length, 1);
+  const [{ headers, body }] = received;
+  assert.equal(headers["x-webhook-event"], "ping");
+  assert.equal(headers["x-webhook-delivery"], delivery!.id.toString());
+  assert.equal(headers["x-webhook-signature"], signPayload(webhook.secret, headers["x-webhook-timestamp"] as string, body));
+  assert.deepEqual(JSON.parse(body).data, { hello: "world" });
+});
+
+test("a failed delivery is retried with backoff, once however many sweeps overlap", async () => {
+  const webhook = await createWebhook(receiverUrl);
+  statuses.push(500);
+
+  const sentAt = Date.now();
+  const failed = await sendWebhookEvent(webhook, "ping", {});
+  assert.equal(failed!.status, "PENDING");
+  assert.equal(failed!.attempts, 1);
+  assert.equal(failed!.responseStatus, 500);
+  assert.ok(failed!.nextAttemptAt!.getTime() >= sentAt + retryDelay(1));
+
+  // Not due yet
+  assert.equal(await attemptDelivery(failed!), undefined);
+  assert.equal(received.length, 1);
+
+  await new Promise(resolve => setTimeout(resolve, retryDelay(1)));
+  const due = (await storage.getDueWebhookDeliveries(new Date())).find(delivery => delivery.id === failed!.id);
+  const retries = await Promise.all([attemptDelivery(due!), attemptDelivery(due!)]);
+
+  assert.deepEqual(retries.filter(retry => retry !== undefined).map(retry => retry!.status), ["SUCCEEDED"]);
+  assert.equal(received.length, 2);
+
+  // A stale copy of the delivery records nothing over the newer outcome
+  assert.equal(await attemptDelivery(failed!), undefined);
+  const [recorded] = await storage.getWebhookDeliveries(webhook.id, 1);
+  assert.equal(recorded.status, "SUCCEEDED");
+  assert.equal(recorded.attempts, 2);
+});
+
+test("deliveries to internal addresses fail without a request", async () => {
+  const internal = await sendWebhookEvent(await createWebhook("http://169.254.169.254/hook"), "ping", {});
+  assert.equal(internal!.status, "FAILED");
+  assert.match(internal!.lastError!, /private or internal address/);
+
+  process.env.WEBHOOK_ALLOW_LOOPBACK = "false";
+  try {
+    const loopback = await sendWebhookEvent(await createWebhook(receiverUrl), "ping", {});
+    assert.equal(loopback!.status, "FAILED");
+  } finally {
+    process.env.WEBHOOK_ALLOW_LOOPBACK = "true";
+  }
+  assert.equal(received.length, 0);
+});
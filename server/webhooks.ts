@@ -0,0 +1,220 @@
+import type { Server } from "http";
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { storage } from "./storage";
+import { tradingEvents, type TradingEvent } from "./events";
+import type { Webhook, WebhookDelivery, WebhookEventType } from "@shared/schema";
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "5");
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || "10000"); // doubles after each failed attempt
+const TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000");
+const RETRY_SWEEP_INTERVAL_MS = 5000;
+const CLAIM_MS = TIMEOUT_MS + 30000; // a retry that dies mid-attempt is picked up again after this
+
+// Receivers inside our own network are off limits, so a webhook cannot be used to probe it
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Loopback is refused too unless WEBHOOK_ALLOW_LOOPBACK=true, e.g. to test against a local receiver
+const LOOPBACK_ADDRESSES = new BlockList();
+LOOPBACK_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+LOOPBACK_ADDRESSES.addAddress("::1", "ipv6");
+
+// BlockList matches IPv4-mapped IPv6 addresses against the IPv4 subnets as well
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+  if (INTERNAL_ADDRESSES.check(address, family)) return true;
+  return process.env.WEBHOOK_ALLOW_LOOPBACK !== "true" && LOOPBACK_ADDRESSES.check(address, family);
+}
+
+// Why `url` may not receive webhooks, or undefined if it may. Checked when a webhook is saved and
+// again before every attempt, since the host's DNS can change in between.
+export async function webhookUrlError(url: string): Promise<string | undefined> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    return `Cannot resolve ${host}`;
+  }
+  if (addresses.some(isBlockedAddress)) {
+    return `${host} is a private or internal address`;
+  }
+  return undefined;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers recompute this over "<X-Webhook-Timestamp>.<raw body>" with their secret
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Delay before the attempt after `attempts` failed ones
+export function retryDelay(attempts: number): number {
+  return RETRY_BASE_MS * Math.pow(2, attempts - 1);
+}
+
+// The webhook event a trading event maps to, with the data sent for it; undefined for events webhooks do not carry
+function toWebhookEvent(event: TradingEvent): { type: WebhookEventType; data: unknown } | undefined {
+  switch (event.type) {
+    case "order.placed":
+    case "order.cancelled":
+      return { type: event.type, data: { order: event.order } };
+    case "order.filled":
+      return { type: event.type, data: { order: event.order, trade: event.trade } };
+    case "alert.triggered":
+      return { type: event.type, data: { alert: event.alert, trigger: event.trigger } };
+    case "position.updated":
+      if (event.position !== null) return undefined;
+      return { type: "position.closed", data: { symbol: event.symbol, exchange: event.exchange, product: event.product } };
+    default:
+      return undefined;
+  }
+}
+
+// POST a delivery's payload once and record the outcome. Failed attempts are retried
+// with exponential backoff until MAX_ATTEMPTS; a removed or disabled webhook fails the delivery.
+// A retry is claimed first, so it never overlaps another attempt at the same delivery; a new delivery
+// has no nextAttemptAt, so only the code that created it attempts it. Outcomes are only recorded
+// against the attempt count they were made after, so a stale attempt cannot overwrite a newer result.
+export async function attemptDelivery(delivery: WebhookDelivery, webhook?: Webhook): Promise<WebhookDelivery | undefined> {
+  if (delivery.nextAttemptAt) {
+    const claimed = await storage.claimWebhookDelivery(delivery.id, delivery.attempts, new Date(Date.now() + CLAIM_MS));
+    if (!claimed) return undefined;
+  }
+
+  const target = webhook || await storage.getWebhook(delivery.webhookId);
+  if (!target || !target.active) {
+    return await storage.recordWebhookAttempt(delivery.id, delivery.attempts, {
+      status: "FAILED",
+      responseStatus: null,
+      lastError: target ? "Webhook is disabled" : "Webhook was deleted",
+      nextAttemptAt: null,
+      deliveredAt: null
+    });
+  }
+
+  const urlError = await webhookUrlError(target.url);
+  if (urlError) {
+    return await storage.recordWebhookAttempt(delivery.id, delivery.attempts, {
+      status: "FAILED",
+      responseStatus: null,
+      lastError: urlError,
+      nextAttemptAt: null,
+      deliveredAt: null
+    });
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+
+  try {
+    const response = await fetch(target.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "PaperTrading-Webhooks/1.0",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id.toString(),
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": signPayload(target.secret, timestamp, body)
+      },
+      body,
+      redirect: "manual", // a redirect could point anywhere, including at an internal address
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      lastError = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (error: any) {
+    lastError = error.message;
+  }
+
+  if (!lastError) {
+    return await storage.recordWebhookAttempt(delivery.id, delivery.attempts, {
+      status: "SUCCEEDED",
+      responseStatus,
+      lastError: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date()
+    });
+  }
+
+  const attempts = delivery.attempts + 1;
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  return await storage.recordWebhookAttempt(delivery.id, delivery.attempts, {
+    status: exhausted ? "FAILED" : "PENDING",
+    responseStatus,
+    lastError,
+    nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelay(attempts)),
+    deliveredAt: null
+  });
+}
+
+// Record a delivery of `type` to one webhook and make the first attempt
+export async function sendWebhookEvent(webhook: Webhook, type: WebhookEventType | "ping", data: unknown): Promise<WebhookDelivery | undefined> {
+  const createdAt = new Date();
+  const delivery = await storage.createWebhookDelivery({
+    webhookId: webhook.id,
+    userId: webhook.userId,
+    event: type,
+    payload: { event: type, webhookId: webhook.id, createdAt: createdAt.toISOString(), data },
+    nextAttemptAt: null // the retry sweep only sees it once the first attempt has been recorded
+  });
+  return await attemptDelivery(delivery, webhook);
+}
+
+// Fan trading events out to the owning user's subscribed webhooks and retry failed deliveries
+export function setupWebhooks(httpServer: Server) {
+  const unsubscribe = tradingEvents.subscribe(event => {
+    const webhookEvent = toWebhookEvent(event);
+    if (!webhookEvent) return;
+
+    // Delivery happens off the publishing code path
+    (async () => {
+      const subscribed = (await storage.getUserWebhooks(event.userId))
+        .filter(webhook => webhook.active && webhook.events.includes(webhookEvent.type));
+      for (const webhook of subscribed) {
+        await sendWebhookEvent(webhook, webhookEvent.type, webhookEvent.data);
+      }
+    })().catch(error => {
+      console.error(`Failed to deliver ${webhookEvent.type} webhooks:`, error);
+    });
+  });
+
+  let sweeping = false;
+  const retryTimer = setInterval(async () => {
+    if (sweeping) return;
+    sweeping = true;
+
+    try {
+      for (const delivery of await storage.getDueWebhookDeliveries(new Date())) {
+        await attemptDelivery(delivery);
+      }
+    } catch (error) {
+      console.error("Failed to retry webhook deliveries:", error);
+    } finally {
+      sweeping = false;
+    }
+  }, RETRY_SWEEP_INTERVAL_MS);
+
+  httpServer.on("close", () => {
+    clearInterval(retryTimer);
+    unsubscribe();
+  });
+}
@@ -1,4 +1,6 @@
 import fetch from 'node-fetch';
+import type { StockPrice } from '@shared/schema';
+import { isIndexSymbol, type ChartBar, type MarketDataProvider } from './market-data';
 
 interface YahooQuoteData {
   symbol: string;
@@ -13,6 +15,8 @@ interface YahooQuoteData {
   marketState: string;
 }
 
+export type YahooChartBar = ChartBar;
+
 interface YahooSearchResult {
   symbol: string;
   shortname: string;
@@ -21,13 +25,16 @@ interface YahooSearchResult {
   quoteType: string;
 }
 
-export class YahooFinanceAPI {
+export class YahooFinanceAPI implements MarketDataProvider {
+  readonly name = 'yahoo';
   private baseUrl = 'https://query1.finance.yahoo.com/v8/finance/chart/';
   private searchUrl = 'https://query1.finance.yahoo.com/v1/finance/search';
 
-  // Convert NSE/BSE symbols to Yahoo Finance format
+  // Convert NSE/BSE symbols to Yahoo Finance format; indices such as ^NSEI are already in it
   private formatSymbol(symbol: string, exchange: string): string {
-    if (exchange === 'NSE') {
+    if (isIndexSymbol(symbol)) {
+      return symbol;
+    } else if (exchange === 'NSE') {
       return `${symbol}.NS`;
     } else if (exchange === 'BSE') {
       return `${symbol}.BO`;
@@ -39,7 +46,7 @@ export class YahooFinanceAPI {
     const yahooSymbol = this.formatSymbol(symbol, exchange);
     
     try {
-      const response = await fetch(`${this.baseUrl}${yahooSymbol}`, {
+      const response = await fetch(`${this.baseUrl}${encodeURIComponent(yahooSymbol)}`, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
         }
@@ -76,6 +83,78 @@ export class YahooFinanceAPI {
     }
   }
 
+  async getPrice(symbol: string, exchange: string): Promise<StockPrice> {
+    const quote = await this.getQuote(symbol, exchange);
+
+    return {
+      symbol,
+      exchange,
+      currentPrice: quote.regularMarketPrice,
+      change: quote.regularMarketChange,
+      changePercent: quote.regularMarketChangePercent,
+      dayHigh: quote.regularMarketDayHigh,
+      dayLow: quote.regularMarketDayLow,
+      dayOpen: quote.regularMarketOpen,
+      previousClose: quote.regularMarketPreviousClose,
+      volume: quote.regularMarketVolume,
+      marketState: quote.marketState
+    };
+  }
+
+  // OHLCV bars from the chart endpoint's indicators; intervals Yahoo has no trade data for are skipped
+  async getChart(symbol: string, exchange: string, interval: string, from: Date, to: Date): Promise<YahooChartBar[]> {
+    const yahooSymbol = this.formatSymbol(symbol, exchange);
+    const params = new URLSearchParams({
+      interval,
+      period1: Math.floor(from.getTime() / 1000).toString(),
+      period2: Math.floor(to.getTime() / 1000).toString()
+    });
+
+    try {
+      const response = await fetch(`${this.baseUrl}${encodeURIComponent(yahooSymbol)}?${params}`, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Yahoo Finance API error: ${response.status}`);
+      }
+
+      const data = await response.json() as any;
+
+      if (!data.chart || !data.chart.result || data.chart.result.length === 0) {
+        throw new Error('No data found for symbol');
+      }
+
+      const result = data.chart.result[0];
+      const timestamps: number[] = result.timestamp || [];
+      const quote = (result.indicators && result.indicators.quote && result.indicators.quote[0]) || {};
+
+      const bars: YahooChartBar[] = [];
+      timestamps.forEach((timestamp, i) => {
+        const open = quote.open?.[i];
+        const high = quote.high?.[i];
+        const low = quote.low?.[i];
+        const close = quote.close?.[i];
+        if (open == null || high == null || low == null || close == null) return;
+
+        bars.push({
+          timestamp: new Date(timestamp * 1000),
+          open,
+          high,
+          low,
+          close,
+          volume: quote.volume?.[i] || 0
+        });
+      });
+
+      return bars;
+    } catch (error: any) {
+      throw new Error(`Failed to fetch chart for ${yahooSymbol}: ${error.message}`);
+    }
+  }
+
   async searchSymbols(query: string): Promise<YahooSearchResult[]> {
     try {
       const response = await fetch(`${this.searchUrl}?q=${encodeURIComponent(query)}&quotesCount=10&newsCount=0`, {
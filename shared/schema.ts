@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, decimal, timestamp, date, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +9,14 @@ export const users = pgTable("users", {
   balance: decimal("balance", { precision: 12, scale: 2 }).notNull().default("100000.00"),
 });
 
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the bearer token, which is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const stocks = pgTable("stocks", {
   id: serial("id").primaryKey(),
   symbol: text("symbol").notNull(),
@@ -29,15 +37,29 @@ export const orders = pgTable("orders", {
   symbol: text("symbol").notNull(),
   exchange: text("exchange").notNull(),
   orderType: text("order_type").notNull(), // BUY or SELL
+  product: text("product").notNull().default("CNC"), // CNC (delivery) or MIS (intraday)
+  priceType: text("price_type").notNull().default("LIMIT"), // MARKET, LIMIT, STOP (SL-M) or STOP_LIMIT (SL)
   quantity: integer("quantity").notNull(),
-  limitPrice: decimal("limit_price", { precision: 10, scale: 2 }).notNull(),
+  limitPrice: decimal("limit_price", { precision: 10, scale: 2 }), // LIMIT and STOP_LIMIT only
+  triggerPrice: decimal("trigger_price", { precision: 10, scale: 2 }), // STOP and STOP_LIMIT only
+  triggeredAt: timestamp("triggered_at"), // when a STOP_LIMIT order turned into a live limit order
+  validity: text("validity").notNull().default("DAY"), // DAY, IOC or GTC
+  amo: boolean("amo").notNull().default(false), // placed while the market was closed
+  expiresAt: timestamp("expires_at"), // session close for DAY, optional for GTC
   takeProfitType: text("take_profit_type"), // PERCENTAGE or ABSOLUTE
   takeProfitValue: decimal("take_profit_value", { precision: 10, scale: 2 }),
   stopLossType: text("stop_loss_type"), // PERCENTAGE or ABSOLUTE
   stopLossValue: decimal("stop_loss_value", { precision: 10, scale: 2 }),
-  status: text("status").notNull().default("PENDING"), // PENDING, EXECUTED, CANCELLED
-  executedPrice: decimal("executed_price", { precision: 10, scale: 2 }),
-  executedAt: timestamp("executed_at"),
+  parentOrderId: integer("parent_order_id"), // set on exit legs spawned by a filled bracket order
+  legType: text("leg_type"), // TAKE_PROFIT or STOP_LOSS for bracket exit legs
+  status: text("status").notNull().default("PENDING"), // PENDING, PARTIALLY_FILLED, EXECUTED, CANCELLED, REJECTED, EXPIRED
+  rejectionReason: text("rejection_reason"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: text("cancellation_reason"), // USER_CANCELLED, IOC_UNFILLED, MIS_SQUARE_OFF or OCO_SIBLING_FILLED
+  filledQuantity: integer("filled_quantity").notNull().default(0),
+  averageFillPrice: decimal("average_fill_price", { precision: 10, scale: 2 }),
+  executedPrice: decimal("executed_price", { precision: 10, scale: 2 }), // average fill price once fully filled
+  executedAt: timestamp("executed_at"), // time of the latest fill
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -46,7 +68,8 @@ export const positions = pgTable("positions", {
   userId: integer("user_id").notNull(),
   symbol: text("symbol").notNull(),
   exchange: text("exchange").notNull(),
-  quantity: integer("quantity").notNull(),
+  product: text("product").notNull().default("CNC"), // CNC and MIS holdings are separate positions
+  quantity: integer("quantity").notNull(), // negative for an MIS short position
   averagePrice: decimal("average_price", { precision: 10, scale: 2 }).notNull(),
   currentValue: decimal("current_value", { precision: 12, scale: 2 }).notNull(),
   unrealizedPnL: decimal("unrealized_pnl", { precision: 12, scale: 2 }).notNull().default("0.00"),
@@ -61,18 +84,173 @@ export const trades = pgTable("trades", {
   symbol: text("symbol").notNull(),
   exchange: text("exchange").notNull(),
   tradeType: text("trade_type").notNull(), // BUY or SELL
+  product: text("product").notNull().default("CNC"),
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   totalValue: decimal("total_value", { precision: 12, scale: 2 }).notNull(),
+  realizedPnL: decimal("realized_pnl", { precision: 12, scale: 2 }), // set on trades that close lots
+  // Itemised brokerage and statutory charges for the fill
+  brokerage: decimal("brokerage", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  stt: decimal("stt", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  exchangeCharges: decimal("exchange_charges", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  sebiFees: decimal("sebi_fees", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  stampDuty: decimal("stamp_duty", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  gst: decimal("gst", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  dpCharges: decimal("dp_charges", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  totalCharges: decimal("total_charges", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  netAmount: decimal("net_amount", { precision: 12, scale: 2 }).notNull().default("0.00"), // cash moved: value plus charges on BUY, minus on SELL
   executedAt: timestamp("executed_at").notNull().defaultNow(),
 });
 
+// One lot per opening fill; closing fills consume lots oldest first (FIFO)
+export const taxLots = pgTable("tax_lots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull(),
+  product: text("product").notNull().default("CNC"),
+  side: text("side").notNull().default("LONG"), // LONG, or SHORT for an MIS short sale
+  tradeId: integer("trade_id").notNull(), // the trade that opened the lot
+  quantity: integer("quantity").notNull(),
+  remainingQuantity: integer("remaining_quantity").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  acquiredAt: timestamp("acquired_at").notNull().defaultNow(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Audit trail of edits to pending orders
+export const orderModifications = pgTable("order_modifications", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  userId: integer("user_id").notNull(),
+  changes: jsonb("changes").$type<OrderFieldChanges>().notNull(), // field -> { from, to }
+  modifiedAt: timestamp("modified_at").notNull().defaultNow(),
+});
+
+// Named lists of instruments a user follows; `position` orders a user's lists and a list's items
+export const watchlists = pgTable("watchlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("watchlists_user_name_unique").on(table.userId, table.name),
+]);
+
+export const watchlistItems = pgTable("watchlist_items", {
+  id: serial("id").primaryKey(),
+  watchlistId: integer("watchlist_id").notNull(),
+  symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull(),
+  position: integer("position").notNull().default(0),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => [
+  unique("watchlist_items_list_symbol_exchange_unique").on(table.watchlistId, table.symbol, table.exchange),
+]);
+
+export const priceAlerts = pgTable("price_alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull(),
+  condition: text("condition").notNull(), // ABOVE, BELOW, CHANGE_PERCENT, CROSS_DAY_HIGH or CROSS_DAY_LOW
+  threshold: decimal("threshold", { precision: 10, scale: 2 }), // price for ABOVE/BELOW, signed percent for CHANGE_PERCENT
+  referencePrice: decimal("reference_price", { precision: 10, scale: 2 }), // day high/low at the last check, for the crossing conditions
+  status: text("status").notNull().default("ACTIVE"), // ACTIVE, TRIGGERED or DISABLED
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  triggeredAt: timestamp("triggered_at"), // latest time the alert fired
+});
+
+// One row each time an alert fires, with the quote that fired it
+export const priceAlertTriggers = pgTable("price_alert_triggers", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull(),
+  userId: integer("user_id").notNull(),
+  symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull(),
+  condition: text("condition").notNull(),
+  threshold: decimal("threshold", { precision: 10, scale: 2 }),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  changePercent: decimal("change_percent", { precision: 10, scale: 2 }).notNull(),
+  triggeredAt: timestamp("triggered_at").notNull().defaultNow(),
+});
+
+// Outbound HTTP callbacks a user registers for trading events
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 key for the X-Webhook-Signature header
+  events: jsonb("events").$type<WebhookEventType[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per event sent to a webhook, updated on each attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull(),
+  userId: integer("user_id").notNull(),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(), // the JSON body, exactly as signed
+  status: text("status").notNull().default("PENDING"), // PENDING, SUCCEEDED or FAILED
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // HTTP status of the latest attempt
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // when a PENDING delivery is due
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+// End-of-day account state, one row per user per trading day
+export const portfolioSnapshots = pgTable("portfolio_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // IST trading date, YYYY-MM-DD
+  cash: decimal("cash", { precision: 12, scale: 2 }).notNull(),
+  holdingsValue: decimal("holdings_value", { precision: 12, scale: 2 }).notNull(), // equity held in positions: full value for CNC, margin plus P&L for MIS
+  investedAmount: decimal("invested_amount", { precision: 12, scale: 2 }).notNull(),
+  realizedPnL: decimal("realized_pnl", { precision: 12, scale: 2 }).notNull(), // cumulative
+  unrealizedPnL: decimal("unrealized_pnl", { precision: 12, scale: 2 }).notNull(),
+  totalValue: decimal("total_value", { precision: 12, scale: 2 }).notNull(), // cash plus holdings value
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("portfolio_snapshots_user_date_unique").on(table.userId, table.date),
+]);
+
+export const priceBars = pgTable("price_bars", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull(),
+  interval: text("interval").notNull(), // 1m, 5m or 1d
+  startTime: timestamp("start_time").notNull(), // start of the bar; 1d bars start at IST midnight
+  open: decimal("open", { precision: 10, scale: 2 }).notNull(),
+  high: decimal("high", { precision: 10, scale: 2 }).notNull(),
+  low: decimal("low", { precision: 10, scale: 2 }).notNull(),
+  close: decimal("close", { precision: 10, scale: 2 }).notNull(),
+  volume: bigint("volume", { mode: "number" }).notNull().default(0),
+}, (table) => [
+  unique("price_bars_symbol_exchange_interval_start_unique").on(table.symbol, table.exchange, table.interval, table.startTime),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   balance: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3).max(32).regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, digits, '_', '.' and '-'"),
+  password: z.string().min(8).max(128),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
 export const insertStockSchema = createInsertSchema(stocks).omit({
   id: true,
   lastUpdated: true,
@@ -85,8 +263,90 @@ export const insertOrderSchema = createInsertSchema(orders).omit({
   executedPrice: true,
   executedAt: true,
   createdAt: true,
+  parentOrderId: true,
+  legType: true,
+  rejectionReason: true,
+  triggeredAt: true,
+  amo: true,
+  filledQuantity: true,
+  averageFillPrice: true,
+  cancelledAt: true,
+  cancellationReason: true,
 });
 
+export const orderPriceTypes = ["MARKET", "LIMIT", "STOP", "STOP_LIMIT"] as const;
+export const orderValidities = ["DAY", "IOC", "GTC"] as const;
+export const orderProducts = ["CNC", "MIS"] as const;
+
+const priceString = z.string().refine(value => {
+  const price = parseFloat(value);
+  return Number.isFinite(price) && price > 0;
+}, "Must be a positive price");
+
+// Validates the price fields each price type requires
+export const placeOrderSchema = insertOrderSchema.extend({
+  orderType: z.enum(["BUY", "SELL"]),
+  product: z.enum(orderProducts).default("CNC"),
+  priceType: z.enum(orderPriceTypes).default("LIMIT"),
+  quantity: z.number().int().positive(),
+  limitPrice: priceString.nullish(),
+  triggerPrice: priceString.nullish(),
+  takeProfitType: z.enum(["PERCENTAGE", "ABSOLUTE"]).nullish(),
+  stopLossType: z.enum(["PERCENTAGE", "ABSOLUTE"]).nullish(),
+  validity: z.enum(orderValidities).default("DAY"),
+  expiresAt: z.coerce.date().nullish(),
+}).superRefine((order, ctx) => {
+  const needsLimit = order.priceType === "LIMIT" || order.priceType === "STOP_LIMIT";
+  const needsTrigger = order.priceType === "STOP" || order.priceType === "STOP_LIMIT";
+
+  if (needsLimit && !order.limitPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limitPrice"], message: `limitPrice is required for ${order.priceType} orders` });
+  } else if (!needsLimit && order.limitPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limitPrice"], message: `limitPrice is not allowed for ${order.priceType} orders` });
+  }
+
+  if (needsTrigger && !order.triggerPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["triggerPrice"], message: `triggerPrice is required for ${order.priceType} orders` });
+  } else if (!needsTrigger && order.triggerPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["triggerPrice"], message: `triggerPrice is not allowed for ${order.priceType} orders` });
+  }
+
+  // IOC orders are checked once on placement, so they cannot wait for a trigger
+  if (order.validity === "IOC" && (order.priceType === "STOP" || order.priceType === "STOP_LIMIT")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["validity"], message: "IOC is only supported for MARKET and LIMIT orders" });
+  }
+
+  if (order.expiresAt) {
+    if (order.validity !== "GTC") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiresAt"], message: "expiresAt can only be set on GTC orders" });
+    } else if (order.expiresAt.getTime() <= Date.now()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiresAt"], message: "expiresAt must be in the future" });
+    }
+  }
+
+  // Once triggered, a stop-limit order must still be marketable at its limit
+  if (order.priceType === "STOP_LIMIT" && order.limitPrice && order.triggerPrice) {
+    const limitPrice = parseFloat(order.limitPrice);
+    const triggerPrice = parseFloat(order.triggerPrice);
+    if (order.orderType === "BUY" && limitPrice < triggerPrice) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limitPrice"], message: "limitPrice must be at or above triggerPrice for a BUY stop-limit order" });
+    } else if (order.orderType === "SELL" && limitPrice > triggerPrice) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limitPrice"], message: "limitPrice must be at or below triggerPrice for a SELL stop-limit order" });
+    }
+  }
+});
+
+// Fields of a pending order that PATCH /api/orders/:id may change
+export const modifyOrderSchema = z.object({
+  quantity: z.number().int().positive().optional(),
+  limitPrice: priceString.nullish(),
+  triggerPrice: priceString.nullish(),
+  takeProfitType: z.enum(["PERCENTAGE", "ABSOLUTE"]).nullish(),
+  takeProfitValue: priceString.nullish(),
+  stopLossType: z.enum(["PERCENTAGE", "ABSOLUTE"]).nullish(),
+  stopLossValue: priceString.nullish(),
+}).strict().refine(changes => Object.keys(changes).length > 0, "At least one field must be changed");
+
 export const insertPositionSchema = createInsertSchema(positions).omit({
   id: true,
   userId: true,
@@ -99,13 +359,105 @@ export const insertPositionSchema = createInsertSchema(positions).omit({
 export const insertTradeSchema = createInsertSchema(trades).omit({
   id: true,
   userId: true,
+  realizedPnL: true,
+  brokerage: true,
+  stt: true,
+  exchangeCharges: true,
+  sebiFees: true,
+  stampDuty: true,
+  gst: true,
+  dpCharges: true,
+  totalCharges: true,
+  netAmount: true,
   executedAt: true,
 });
 
+export const insertPriceBarSchema = createInsertSchema(priceBars).omit({
+  id: true,
+});
+
+export const insertPortfolioSnapshotSchema = createInsertSchema(portfolioSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const watchlistNameSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+});
+
+export const watchlistItemSchema = z.object({
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  exchange: z.enum(["NSE", "BSE"]),
+});
+
+// Complete new ordering of a user's watchlists, or of one watchlist's items, by id
+export const reorderSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1),
+});
+
+export const priceAlertConditions = ["ABOVE", "BELOW", "CHANGE_PERCENT", "CROSS_DAY_HIGH", "CROSS_DAY_LOW"] as const;
+
+const numericString = z.string().refine(value => Number.isFinite(parseFloat(value)), "Must be a number");
+
+// ABOVE/BELOW need a positive price and CHANGE_PERCENT a non-zero percent; crossing conditions take no threshold
+function refineAlertThreshold(alert: { condition?: string; threshold?: string | null }, ctx: z.RefinementCtx) {
+  const threshold = alert.threshold ? parseFloat(alert.threshold) : undefined;
+
+  if (alert.condition === "ABOVE" || alert.condition === "BELOW") {
+    if (threshold === undefined || threshold <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: `threshold must be a positive price for ${alert.condition} alerts` });
+    }
+  } else if (alert.condition === "CHANGE_PERCENT") {
+    if (!threshold) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "threshold must be a non-zero percent; negative values fire on a fall" });
+    }
+  } else if (alert.condition && alert.threshold) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: `${alert.condition} alerts take no threshold` });
+  }
+}
+
+export const insertPriceAlertSchema = createInsertSchema(priceAlerts).pick({
+  symbol: true,
+  exchange: true,
+  condition: true,
+  threshold: true,
+}).extend({
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  exchange: z.enum(["NSE", "BSE"]),
+  condition: z.enum(priceAlertConditions),
+  threshold: numericString.nullish(),
+}).superRefine(refineAlertThreshold);
+
+// Changing the condition or threshold, or setting status ACTIVE, re-arms the alert
+export const updatePriceAlertSchema = z.object({
+  condition: z.enum(priceAlertConditions).optional(),
+  threshold: numericString.nullish(),
+  status: z.enum(["ACTIVE", "DISABLED"]).optional(),
+}).strict().refine(changes => Object.keys(changes).length > 0, "At least one field must be changed");
+
+export const webhookEventTypes = ["order.placed", "order.filled", "order.cancelled", "alert.triggered", "position.closed"] as const;
+export type WebhookEventType = typeof webhookEventTypes[number];
+
+export const insertWebhookSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), "Must be an http or https URL"),
+  events: z.array(z.enum(webhookEventTypes)).min(1).transform(events => Array.from(new Set(events))),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial().extend({
+  active: z.boolean().optional(),
+}).strict().refine(changes => Object.keys(changes).length > 0, "At least one field must be changed");
+
+// Delivery log page size, newest first
+export const webhookDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type Session = typeof sessions.$inferSelect;
+
 export type Stock = typeof stocks.$inferSelect;
 export type InsertStock = z.infer<typeof insertStockSchema>;
 
@@ -118,6 +470,33 @@ export type InsertPosition = z.infer<typeof insertPositionSchema>;
 export type Trade = typeof trades.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 
+export type TaxLot = typeof taxLots.$inferSelect;
+
+export type OrderFieldChanges = Record<string, { from: string | number | null; to: string | number | null }>;
+export type OrderModification = typeof orderModifications.$inferSelect;
+export type ModifyOrder = z.infer<typeof modifyOrderSchema>;
+
+export type CancellationReason = "USER_CANCELLED" | "IOC_UNFILLED" | "MIS_SQUARE_OFF" | "OCO_SIBLING_FILLED";
+
+export type Watchlist = typeof watchlists.$inferSelect;
+export type WatchlistItem = typeof watchlistItems.$inferSelect;
+
+export type PriceAlert = typeof priceAlerts.$inferSelect;
+export type InsertPriceAlert = z.infer<typeof insertPriceAlertSchema>;
+export type UpdatePriceAlert = z.infer<typeof updatePriceAlertSchema>;
+export type PriceAlertTrigger = typeof priceAlertTriggers.$inferSelect;
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+export type InsertPortfolioSnapshot = z.infer<typeof insertPortfolioSnapshotSchema>;
+
+export type PriceBar = typeof priceBars.$inferSelect;
+export type InsertPriceBar = z.infer<typeof insertPriceBarSchema>;
+
 // Additional schemas for API responses
 export const stockPriceSchema = z.object({
   symbol: z.string(),
@@ -130,6 +509,9 @@ export const stockPriceSchema = z.object({
   dayOpen: z.number(),
   previousClose: z.number(),
   volume: z.number(),
+  bid: z.number().optional(), // best bid/ask when the provider reports market depth
+  ask: z.number().optional(),
+  marketState: z.string().optional(),
 });
 
 export type StockPrice = z.infer<typeof stockPriceSchema>;
@@ -137,19 +519,168 @@ export type StockPrice = z.infer<typeof stockPriceSchema>;
 export const portfolioSummarySchema = z.object({
   totalValue: z.number(),
   totalInvestment: z.number(),
-  totalPnL: z.number(),
+  totalPnL: z.number(), // unrealized, kept for existing clients
   totalPnLPercent: z.number(),
+  totalUnrealizedPnL: z.number(),
+  totalRealizedPnL: z.number(),
+  totalCharges: z.number(),
   availableCash: z.number(),
+  reservedCash: z.number(),
+  marginUsed: z.number(), // blocked by open MIS positions
+  buyingPower: z.number(),
   positions: z.array(z.object({
     symbol: z.string(),
     exchange: z.string(),
+    product: z.string(),
     quantity: z.number(),
     averagePrice: z.number(),
     currentPrice: z.number(),
     currentValue: z.number(),
     unrealizedPnL: z.number(),
     unrealizedPnLPercent: z.number(),
+    realizedPnL: z.number(),
+  })),
+  // Realized P&L for every symbol traded, including fully closed positions
+  realizedPnLBySymbol: z.array(z.object({
+    symbol: z.string(),
+    exchange: z.string(),
+    realizedPnL: z.number(),
   })),
 });
 
 export type PortfolioSummary = z.infer<typeof portfolioSummarySchema>;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a YYYY-MM-DD date");
+
+// Inclusive range of trading dates
+export const portfolioHistoryQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+export const portfolioHistoryPointSchema = z.object({
+  date: z.string(),
+  cash: z.number(),
+  holdingsValue: z.number(),
+  investedAmount: z.number(),
+  realizedPnL: z.number(),
+  unrealizedPnL: z.number(),
+  totalValue: z.number(),
+});
+
+export type PortfolioHistoryPoint = z.infer<typeof portfolioHistoryPointSchema>;
+
+// Inclusive range of IST dates for trade, order and statement exports
+export const exportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+// Inclusive date range and optional instrument to compute analytics over
+export const analyticsQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()).optional(),
+  exchange: z.enum(["NSE", "BSE"]).optional(),
+  benchmark: z.enum(["^NSEI", "^BSESN"]).optional(),
+});
+
+// Performance against an index over the same trading days; returns, alpha and tracking error are percentages
+export const benchmarkComparisonSchema = z.object({
+  symbol: z.string(),
+  exchange: z.string(),
+  startClose: z.number(),
+  endClose: z.number(),
+  portfolioReturn: z.number(),
+  benchmarkReturn: z.number(),
+  excessReturn: z.number(),
+  alpha: z.number().nullable(),
+  beta: z.number().nullable(),
+  trackingError: z.number(),
+  informationRatio: z.number().nullable(),
+  days: z.number(), // daily return pairs the statistics are based on
+});
+
+export type BenchmarkComparison = z.infer<typeof benchmarkComparisonSchema>;
+
+// Returns, volatility and drawdown are percentages; ratios are annualised
+export const portfolioAnalyticsSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  symbol: z.string().nullable(),
+  exchange: z.string().nullable(),
+  startValue: z.number(),
+  endValue: z.number(),
+  pnl: z.number(),
+  timeWeightedReturn: z.number(),
+  annualizedReturn: z.number().nullable(),
+  moneyWeightedReturn: z.number().nullable(), // XIRR
+  maxDrawdown: z.number(),
+  maxDrawdownPeakDate: z.string().nullable(),
+  maxDrawdownTroughDate: z.string().nullable(),
+  volatility: z.number(),
+  sharpeRatio: z.number().nullable(),
+  sortinoRatio: z.number().nullable(),
+  riskFreeRate: z.number(),
+  closedTrades: z.number(),
+  winningTrades: z.number(),
+  losingTrades: z.number(),
+  winRate: z.number(),
+  averageWin: z.number(),
+  averageLoss: z.number(),
+  grossProfit: z.number(),
+  grossLoss: z.number(),
+  profitFactor: z.number().nullable(),
+  benchmark: benchmarkComparisonSchema.optional(), // with ?benchmark=
+});
+
+export type PortfolioAnalytics = z.infer<typeof portfolioAnalyticsSchema>;
+
+export const candleIntervals = ["1m", "5m", "1d"] as const;
+export type CandleInterval = typeof candleIntervals[number];
+
+export const candleQuerySchema = z.object({
+  interval: z.enum(candleIntervals).default("1d"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  backfill: z.enum(["true", "false"]).optional(),
+});
+
+export const candleSchema = z.object({
+  time: z.string(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+});
+
+export type Candle = z.infer<typeof candleSchema>;
+
+export const chargeBreakdownSchema = z.object({
+  turnover: z.number(),
+  brokerage: z.number(),
+  stt: z.number(),
+  exchangeCharges: z.number(),
+  sebiFees: z.number(),
+  stampDuty: z.number(),
+  gst: z.number(),
+  dpCharges: z.number(),
+  totalCharges: z.number(),
+  netAmount: z.number(),
+});
+
+export type ChargeBreakdown = z.infer<typeof chargeBreakdownSchema>;
+
+export const chargesEstimateSchema = z.object({
+  symbol: z.string().optional(),
+  exchange: z.enum(["NSE", "BSE"]),
+  orderType: z.enum(["BUY", "SELL"]),
+  quantity: z.number().int().positive(),
+  price: z.number().positive().optional(), // defaults to the live price of `symbol`
+  segment: z.enum(["DELIVERY", "INTRADAY"]).default("DELIVERY"),
+}).refine(estimate => estimate.price !== undefined || !!estimate.symbol, {
+  message: "Either price or symbol is required",
+  path: ["price"],
+});